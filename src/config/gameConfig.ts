@@ -3,6 +3,8 @@
  * All game parameters are defined here for easy configuration
  */
 
+import { TaskDifficulty, VotingMode, VotingRule } from "../types.js";
+
 // Player and Round Configuration
 export const MAX_PLAYERS = 6;
 export const MAX_ROUNDS = 1;
@@ -11,17 +13,48 @@ export const MIN_PLAYERS_TO_START = 3;
 // Mafia Kill Configuration
 export const KILL_COOLDOWN_MS = 10 * 1000; // 10 seconds in milliseconds
 export const KILL_SUCCESS_CHANCE = 0.5; // 50% success rate (0-1)
-export const MAX_KILL_ATTEMPTS = 3; // Maximum kill attempts per round
+export const MAX_KILL_ATTEMPTS = 3; // Maximum kill attempts per round (per mafia member)
+
+// Mafia Sabotage Configuration
+export const MAX_SABOTAGES_PER_ROUND = 2; // Shared by the whole mafia team
+export const SABOTAGE_COOLDOWN_MS = 30 * 1000; // Before the same sabotage can be used again
+export const SABOTAGE_DISPATCH_DELAY_MS = 15 * 1000; // Delay added to pending task dispatches
+export const SILENCE_DURATION_MS = 10 * 1000; // Silenced start of the next discussion
 
 // Phase Duration Configuration (in milliseconds)
 export const TASK_PHASE_DURATION_MS = 60 * 1000; // 60 seconds
 export const KILL_PHASE_DURATION_MS = 60 * 1000; // 60 seconds
 export const DISCUSSION_PHASE_DURATION_MS = 30 * 1000; // 30 seconds
 export const VOTING_PHASE_DURATION_MS = 30 * 1000; // 30 seconds
+export const RUNOFF_PHASE_DURATION_MS = 20 * 1000; // 20 seconds
+export const DEFENSE_PHASE_DURATION_MS = 20 * 1000; // 20 seconds
+export const VERDICT_PHASE_DURATION_MS = 20 * 1000; // 20 seconds
+export const EARLY_PHASE_END_DELAY_MS = 2 * 1000; // Grace period when a phase ends early
+
+// Voting Configuration
+export const DEFAULT_VOTING_RULE = VotingRule.MAJORITY_ALIVE; // Override per lobby with /start voting=<rule>
+export const LIVE_VOTE_TALLY = true; // Override per lobby with /start tally=on|off
+export const ANONYMOUS_VOTING = false; // Override per lobby with /start anonymous=on|off
+export const DEFAULT_VOTING_MODE = VotingMode.VOTE; // Override per lobby with /start mode=vote|trial
+export const NOMINATIONS_FOR_TRIAL = 2; // Nominations that put a player on trial
 
 // Task Configuration
 export const TASKS_PER_PLAYER = 2; // Number of tasks each player must complete
 export const TASK_DISPATCH_BUFFER_MS = 15 * 1000; // 15 seconds buffer before phase ends
+export const TASK_EXPIRY_MS = 20 * 1000; // Time to answer each task once it has been sent
+export const TASK_WIN_PERCENTAGE = 100; // Town wins at this share of all real tasks (0 disables the task win)
+export const TASK_PROGRESS_MILESTONES = [25, 50, 75]; // Progress announced in the lobby at these percentages
+export const TASK_CLUES_ENABLED = true; // Town members get a private clue for each completed task
+
+// Task Difficulty Configuration
+export const TASK_DIFFICULTY_BY_ROUND = [
+  TaskDifficulty.EASY, // Round 1
+  TaskDifficulty.MEDIUM, // Round 2
+  TaskDifficulty.HARD, // Round 3 and later (the last tier repeats)
+];
+export const ADAPTIVE_TASK_DIFFICULTY = true; // Shift each player's tier by how fast they've solved tasks so far
+export const FAST_SOLVE_MS = 10 * 1000; // Average solve time at or under this moves a player up a tier
+export const SLOW_SOLVE_MS = 15 * 1000; // Average solve time at or over this moves a player down a tier (keep under TASK_EXPIRY_MS; missed tasks count as TASK_EXPIRY_MS)
 
 // Lobby Configuration
 export const JOIN_WINDOW_DURATION_MS = 1 * 60 * 1000; // 2 minutes
@@ -29,9 +62,16 @@ export const CANCEL_GAME_WINDOW_MS = 10 * 1000; // 10 seconds
 
 // Helper functions to convert to seconds for display
 export const KILL_COOLDOWN_SECONDS = KILL_COOLDOWN_MS / 1000;
+export const TASK_EXPIRY_SECONDS = TASK_EXPIRY_MS / 1000;
+export const SABOTAGE_COOLDOWN_SECONDS = SABOTAGE_COOLDOWN_MS / 1000;
+export const SABOTAGE_DISPATCH_DELAY_SECONDS = SABOTAGE_DISPATCH_DELAY_MS / 1000;
+export const SILENCE_DURATION_SECONDS = SILENCE_DURATION_MS / 1000;
 export const TASK_PHASE_DURATION_SECONDS = TASK_PHASE_DURATION_MS / 1000;
 export const KILL_PHASE_DURATION_SECONDS = KILL_PHASE_DURATION_MS / 1000;
 export const DISCUSSION_PHASE_DURATION_SECONDS = DISCUSSION_PHASE_DURATION_MS / 1000;
 export const VOTING_PHASE_DURATION_SECONDS = VOTING_PHASE_DURATION_MS / 1000;
+export const RUNOFF_PHASE_DURATION_SECONDS = RUNOFF_PHASE_DURATION_MS / 1000;
+export const DEFENSE_PHASE_DURATION_SECONDS = DEFENSE_PHASE_DURATION_MS / 1000;
+export const VERDICT_PHASE_DURATION_SECONDS = VERDICT_PHASE_DURATION_MS / 1000;
 export const JOIN_WINDOW_DURATION_SECONDS = JOIN_WINDOW_DURATION_MS / 1000;
 
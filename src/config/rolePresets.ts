@@ -0,0 +1,108 @@
+import { Role } from "../types.js";
+import { MAX_PLAYERS, MIN_PLAYERS_TO_START } from "./gameConfig.js";
+import rawPresets from "./rolePresets.json" with { type: "json" };
+
+/**
+ * Role presets decide which roles are dealt at each lobby size.
+ * Each preset maps a player count to its lineup of special roles; a lobby uses
+ * the lineup for the largest count it has reached, and everyone not named in
+ * the lineup is a plain town member.
+ * Definitions live in rolePresets.json and are validated when this module loads.
+ */
+export interface RolePreset {
+  name: string;
+  description: string;
+  lineups: Array<{ minPlayers: number; roles: Role[] }>;
+}
+
+export const DEFAULT_PRESET = "classic";
+
+function validatePreset(name: string, raw: any): RolePreset {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid role preset "${name}": ${reason}`);
+  };
+
+  if (!raw || typeof raw !== "object") {
+    fail("definition must be an object");
+  }
+  if (typeof raw.description !== "string") {
+    fail("missing description");
+  }
+  if (!raw.lineups || typeof raw.lineups !== "object") {
+    fail("missing lineups");
+  }
+
+  const roles = Object.values(Role) as string[];
+  const lineups = Object.entries(raw.lineups).map(([key, lineup]) => {
+    const minPlayers = Number(key);
+    if (!Number.isInteger(minPlayers) || minPlayers < 1) {
+      fail(`"${key}" is not a player count`);
+    }
+    if (minPlayers > MAX_PLAYERS) {
+      fail(`lineup for ${minPlayers} players can never be used (MAX_PLAYERS is ${MAX_PLAYERS})`);
+    }
+    if (!Array.isArray(lineup)) {
+      return fail(`lineup for ${minPlayers} players must be a list of roles`);
+    }
+
+    for (const role of lineup) {
+      if (!roles.includes(role) || role === Role.CREW) {
+        fail(`unknown special role "${role}" at ${minPlayers} players`);
+      }
+    }
+    if (lineup.length > minPlayers) {
+      fail(`${lineup.length} roles don't fit ${minPlayers} players`);
+    }
+
+    // Mafia must start outnumbered, otherwise they win immediately
+    const mafia = lineup.filter((role) => role === Role.IMPOSTOR).length;
+    if (mafia < 1) {
+      fail(`lineup for ${minPlayers} players has no mafia`);
+    }
+    if (mafia >= minPlayers - mafia) {
+      fail(`${mafia} mafia would not be outnumbered at ${minPlayers} players`);
+    }
+
+    return { minPlayers, roles: lineup as Role[] };
+  });
+
+  lineups.sort((a, b) => a.minPlayers - b.minPlayers);
+  if (lineups.length === 0 || lineups[0].minPlayers > MIN_PLAYERS_TO_START) {
+    fail(`needs a lineup for ${MIN_PLAYERS_TO_START} players`);
+  }
+
+  return { name, description: raw.description, lineups };
+}
+
+const ROLE_PRESETS: Map<string, RolePreset> = new Map(
+  Object.entries(rawPresets).map(([name, raw]) => [
+    name.toLowerCase(),
+    validatePreset(name.toLowerCase(), raw),
+  ])
+);
+
+if (!ROLE_PRESETS.has(DEFAULT_PRESET)) {
+  throw new Error(`Default role preset "${DEFAULT_PRESET}" is not defined`);
+}
+
+export function getPresetNames(): string[] {
+  return Array.from(ROLE_PRESETS.keys());
+}
+
+export function getRolePreset(name: string): RolePreset | undefined {
+  return ROLE_PRESETS.get(name.toLowerCase());
+}
+
+/**
+ * Special roles a preset deals for a lobby size (mafia included, plain town excluded)
+ */
+export function getPresetLineup(name: string, playerCount: number): Role[] {
+  const preset = getRolePreset(name) ?? ROLE_PRESETS.get(DEFAULT_PRESET)!;
+  let lineup = preset.lineups[0].roles;
+  for (const entry of preset.lineups) {
+    if (entry.minPlayers <= playerCount) {
+      lineup = entry.roles;
+    }
+  }
+  return [...lineup];
+}
@@ -0,0 +1,85 @@
+import type { GameManager } from "../gameManager.js";
+import { Faction, type Player } from "../types.js";
+import { getRoleFaction } from "../utils/roles.js";
+import { shuffle } from "../utils/helpers.js";
+
+/**
+ * Clue generators for completed tasks.
+ * Each generator returns a true statement about the game that narrows down
+ * the mafia for the recipient, or null when it has nothing useful to say.
+ */
+type ClueGenerator = (gameManager: GameManager, recipient: Player) => string | null;
+
+// Compare "0x3f..." style names by the first character after "0x"
+function namePrefix(username: string): string {
+  const prefixLength = username.toLowerCase().startsWith("0x") ? 3 : 1;
+  return username.slice(0, prefixLength).toLowerCase();
+}
+
+function formatRoundTime(gameManager: GameManager, timestamp: number): string {
+  const elapsed = Math.max(0, timestamp - (gameManager.getGame().roundStartedAt ?? timestamp));
+  const minutes = Math.floor(elapsed / 60000);
+  const seconds = Math.floor((elapsed % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Clears every player sharing a name prefix no mafia member has
+const namePrefixClue: ClueGenerator = (gameManager, recipient) => {
+  const mafiaPrefixes = new Set(gameManager.getMafiaPlayers().map((p) => namePrefix(p.username)));
+  const innocentPrefixes = gameManager
+    .getAlivePlayers()
+    .filter((p) => p.inboxId !== recipient.inboxId)
+    .map((p) => namePrefix(p.username))
+    .filter((prefix) => !mafiaPrefixes.has(prefix));
+
+  const [prefix] = shuffle(innocentPrefixes);
+  return prefix ? `No mafia member's name starts with "${prefix}".` : null;
+};
+
+// Another player's most recent task completion this round
+const sightingClue: ClueGenerator = (gameManager, recipient) => {
+  const game = gameManager.getGame();
+  const sightings = gameManager
+    .getAlivePlayers()
+    .filter((p) => p.inboxId !== recipient.inboxId)
+    .flatMap((p) =>
+      (game.taskAssignments.get(p.inboxId) ?? [])
+        .filter((task) => task.completed && task.completedAt)
+        .map((task) => ({ player: p, completedAt: task.completedAt! }))
+    );
+
+  const [sighting] = shuffle(sightings);
+  return sighting
+    ? `${sighting.player.username} was seen completing a task at ${formatRoundTime(gameManager, sighting.completedAt)}.`
+    : null;
+};
+
+// Two players who are not both mafia
+const pairClue: ClueGenerator = (gameManager, recipient) => {
+  const others = shuffle(
+    gameManager.getAlivePlayers().filter((p) => p.inboxId !== recipient.inboxId)
+  );
+  const innocent = others.find((p) => getRoleFaction(p.role) !== Faction.MAFIA);
+  const other = others.find((p) => p !== innocent);
+  if (!innocent || !other) {
+    return null;
+  }
+
+  const [first, second] = shuffle([innocent, other]);
+  return `${first.username} and ${second.username} are not both mafia.`;
+};
+
+const CLUE_GENERATORS: ClueGenerator[] = [namePrefixClue, sightingClue, pairClue];
+
+/**
+ * Pick a clue for a player who just completed a task
+ */
+export function generateClue(gameManager: GameManager, recipient: Player): string | null {
+  for (const generator of shuffle(CLUE_GENERATORS)) {
+    const clue = generator(gameManager, recipient);
+    if (clue) {
+      return clue;
+    }
+  }
+  return null;
+}
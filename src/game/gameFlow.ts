@@ -4,26 +4,261 @@ import {
   ContentTypeActions,
   type ActionsContent,
 } from "../xmtp-inline-actions/types/index.js";
-import { setPhaseTimer, clearPhaseTimer } from "../utils/timers.js";
-import { GameState, type Player } from "../types.js";
+import {
+  setPhaseTimer,
+  clearPhaseTimer,
+  clearAllTimers,
+  clearTimersByPrefix,
+  delayTimersByPrefix,
+  scheduleTimer,
+  registerTimerHandler,
+} from "../utils/timers.js";
+import {
+  Faction,
+  GameEventType,
+  GameState,
+  Phase,
+  Role,
+  SabotageType,
+  SKIP_VOTE,
+  Verdict,
+  VotingMode,
+  type Player,
+} from "../types.js";
+import {
+  PHASE_GRAPH,
+  isTaskPhase,
+  isDiscussionPhase,
+  isVotingPhase,
+  isRunoffPhase,
+  isVerdictPhase,
+  isInPhase,
+} from "./phases.js";
 import {
   TASK_PHASE_DURATION_MS,
   KILL_PHASE_DURATION_MS,
-  DISCUSSION_PHASE_DURATION_MS,
-  VOTING_PHASE_DURATION_MS,
-  MAX_ROUNDS,
   KILL_SUCCESS_CHANCE,
   MAX_KILL_ATTEMPTS,
   KILL_COOLDOWN_SECONDS,
   CANCEL_GAME_WINDOW_MS,
+  MAX_PLAYERS,
   DISCUSSION_PHASE_DURATION_SECONDS,
   KILL_PHASE_DURATION_SECONDS,
   TASKS_PER_PLAYER,
   TASK_DISPATCH_BUFFER_MS,
+  RUNOFF_PHASE_DURATION_SECONDS,
+  EARLY_PHASE_END_DELAY_MS,
+  DEFENSE_PHASE_DURATION_SECONDS,
+  TASK_CLUES_ENABLED,
+  TASK_EXPIRY_MS,
+  TASK_EXPIRY_SECONDS,
+  VERDICT_PHASE_DURATION_SECONDS,
+  SABOTAGE_DISPATCH_DELAY_MS,
+  SABOTAGE_DISPATCH_DELAY_SECONDS,
+  SILENCE_DURATION_MS,
+  SILENCE_DURATION_SECONDS,
 } from "../config/gameConfig.js";
 import { getPlayerAddress, formatAddressForMention } from "../utils/playerAddress.js";
 import { sendKillButtons } from "../utils/killButtons.js";
-import { sendVotingButtons } from "../utils/voteButtons.js";
+import { sendSabotageButtons } from "../utils/sabotageButtons.js";
+import { sendRoleActionButtons, type RoleAction } from "../utils/roleActionButtons.js";
+import { getRoleLabel, getRoleFaction, getFactionEmoji } from "../utils/roles.js";
+import { sendVotingButtons, sendVerdictButtons } from "../utils/voteButtons.js";
+import { generateClue } from "./clues.js";
+import { getVotingRuleDescription } from "../utils/votingRules.js";
+import { formatTimeRemaining } from "../utils/helpers.js";
+
+/**
+ * Register the callbacks behind every game timer.
+ * Must run at boot before persisted timers are re-armed.
+ */
+export function registerGameTimers(agent: Agent) {
+  registerTimerHandler("joinWindowEnd", (gameManager) =>
+    closeJoinWindow(agent, gameManager)
+  );
+  registerTimerHandler("dispatchTask", (gameManager, payload) =>
+    dispatchTask(
+      Number(payload.round),
+      String(payload.inboxId),
+      Number(payload.taskIndex),
+      agent,
+      gameManager
+    )
+  );
+  registerTimerHandler("dispatchTaskQuestion", (gameManager, payload) =>
+    dispatchTask(
+      Number(payload.round),
+      String(payload.inboxId),
+      Number(payload.taskIndex),
+      agent,
+      gameManager,
+      true
+    )
+  );
+  registerTimerHandler("taskExpired", (gameManager, payload) =>
+    handleTaskExpired(
+      Number(payload.round),
+      String(payload.inboxId),
+      Number(payload.taskIndex),
+      agent,
+      gameManager
+    )
+  );
+  registerTimerHandler("killBriefing", (gameManager, payload) =>
+    sendKillBriefing(Number(payload.round), agent, gameManager)
+  );
+  registerTimerHandler("taskAndKillPhaseEnd", async (gameManager, payload) => {
+    // Only advance if we're still in task phase (not already advanced)
+    if (isTaskPhase(gameManager.getGame())) {
+      const round = Number(payload.round);
+      clearTimersByPrefix(`taskDispatch-${round}-`, gameManager);
+      clearTimersByPrefix(`taskExpiry-${round}-`, gameManager);
+      clearPhaseTimer(`killBriefing-${round}`, gameManager);
+      await advanceToNextPhase(agent, gameManager);
+    }
+  });
+  registerTimerHandler("silenceEnd", async (gameManager) => {
+    const { lobbyGroupId } = gameManager.getGame();
+    if (isDiscussionPhase(gameManager.getGame()) && lobbyGroupId) {
+      const group = await agent.client.conversations.getConversationById(lobbyGroupId);
+      await group?.send("🔊 The silence is lifted. Talk freely.");
+    }
+  });
+  registerTimerHandler("discussionEnd", async (gameManager) => {
+    if (isDiscussionPhase(gameManager.getGame())) {
+      await advanceToNextPhase(agent, gameManager);
+    }
+  });
+  registerTimerHandler("votingEnd", async (gameManager, payload) => {
+    if (isVotingPhase(gameManager.getGame())) {
+      await processVoting(Number(payload.round), agent, gameManager);
+    }
+  });
+  registerTimerHandler("defenseEnd", async (gameManager) => {
+    if (isInPhase(gameManager.getGame(), Phase.DEFENSE)) {
+      await advanceToNextPhase(agent, gameManager);
+    }
+  });
+  registerTimerHandler("verdictEnd", async (gameManager, payload) => {
+    if (isVerdictPhase(gameManager.getGame())) {
+      await processVerdict(Number(payload.round), agent, gameManager);
+    }
+  });
+}
+
+// How each phase in the phase graph is started
+const PHASE_STARTERS: Record<
+  Phase,
+  (round: number, agent: Agent, gameManager: GameManager) => Promise<void>
+> = {
+  [Phase.TASKS]: startTaskAndKillPhase,
+  [Phase.DISCUSSION]: startDiscussionPhase,
+  [Phase.VOTING]: startVotingPhase,
+  [Phase.RUNOFF]: startRunoffPhase,
+  [Phase.DEFENSE]: startDefensePhase,
+  [Phase.VERDICT]: startVerdictPhase,
+};
+
+/**
+ * Start the phase the game is currently in
+ */
+export async function enterPhase(agent: Agent, gameManager: GameManager) {
+  const { round, phase } = gameManager.getGame();
+  if (gameManager.getState() !== GameState.IN_ROUND || !phase) {
+    return;
+  }
+
+  await PHASE_STARTERS[phase](round, agent, gameManager);
+}
+
+/**
+ * Follow the phase graph to the next phase and start it, or end the game
+ * once the final round is over
+ */
+export async function advanceToNextPhase(agent: Agent, gameManager: GameManager) {
+  await gameManager.advancePhase();
+
+  if (gameManager.getState() === GameState.GAME_END) {
+    // Game end - mafia wins if still alive
+    const finalWinCheck = gameManager.checkWinCondition();
+    await endGame(finalWinCheck.winner || Faction.MAFIA, agent, gameManager);
+    return;
+  }
+
+  await enterPhase(agent, gameManager);
+}
+
+/**
+ * Move a restored game on when it was saved between two steps with no phase
+ * timer left to drive it (e.g. while role DMs were going out or the game was
+ * ending). Call after its timers have been re-armed. A game that can't be
+ * resumed is cleaned up so it doesn't block its group and players.
+ */
+export async function resumeGame(agent: Agent, gameManager: GameManager) {
+  const game = gameManager.getGame();
+  if (Array.from(game.scheduledTimers.values()).some((timer) => timer.isPhase)) {
+    return;
+  }
+
+  try {
+    switch (game.state) {
+      case GameState.LOBBY_CREATED:
+      case GameState.WAITING_FOR_PLAYERS:
+        setPhaseTimer(
+          "joinWindow",
+          Math.max(0, (game.joinDeadline ?? 0) - Date.now()),
+          "joinWindowEnd",
+          gameManager
+        );
+        break;
+      case GameState.ASSIGN_ROLES:
+        await gameManager.startRound(1);
+        await enterPhase(agent, gameManager);
+        break;
+      case GameState.IN_ROUND:
+        // Restart the current phase
+        await enterPhase(agent, gameManager);
+        break;
+      case GameState.GAME_END:
+      case GameState.CLEANUP:
+        await endGame(gameManager.checkWinCondition().winner || Faction.MAFIA, agent, gameManager);
+        break;
+    }
+  } catch (error) {
+    console.error("Error resuming restored game:", error);
+  }
+
+  const stalled =
+    gameManager.getState() !== GameState.IDLE &&
+    !Array.from(gameManager.getGame().scheduledTimers.values()).some((timer) => timer.isPhase);
+  if (stalled) {
+    console.error(`Could not resume restored game in state ${gameManager.getState()}; cleaning it up`);
+    clearAllTimers(gameManager);
+    await gameManager.cleanup();
+  }
+}
+
+/**
+ * Start the game once the join window closes, or cancel it if too few joined
+ */
+export async function closeJoinWindow(agent: Agent, gameManager: GameManager) {
+  if (gameManager.getState() !== GameState.WAITING_FOR_PLAYERS) {
+    return;
+  }
+
+  if (gameManager.canStartGame()) {
+    await startGame(agent, gameManager);
+    return;
+  }
+
+  const lobbyId = gameManager.getGame().lobbyGroupId;
+  if (lobbyId) {
+    const lobbyGroup = await agent.client.conversations.getConversationById(lobbyId);
+    await lobbyGroup?.send("Not enough players joined. Game cancelled.");
+  }
+  clearAllTimers(gameManager);
+  await gameManager.cleanup();
+}
 
 export async function startGame(agent: Agent, gameManager: GameManager) {
   try {
@@ -33,7 +268,10 @@ export async function startGame(agent: Agent, gameManager: GameManager) {
     if (lobbyId) {
       const group = await agent.client.conversations.getConversationById(lobbyId);
       if (group) {
-        await group.send("Roles assigned.\n\nRound 1 is starting.");
+        const mafiaCount = gameManager.getGame().mafiaInboxIds.length;
+        await group.send(
+          `Roles assigned. ${mafiaCount} ${mafiaCount === 1 ? "mafia is" : "mafia are"} hiding among you.\n\nRound 1 is starting.`
+        );
 
         // Send game started message with cancel button (only works if game hasn't fully started)
         try {
@@ -73,10 +311,9 @@ export async function startGame(agent: Agent, gameManager: GameManager) {
           console.error("Error sending cancel button:", error);
         }
 
-        // Start round 1
+        // Start round 1 at the first phase of the phase graph
         await gameManager.startRound(1);
-        // Start combined task and kill phase
-        await startTaskAndKillPhase(1, agent, gameManager);
+        await enterPhase(agent, gameManager);
       }
     }
   } catch (error) {
@@ -98,16 +335,22 @@ export async function startTaskAndKillPhase(
   // Announce combined phase
   await group.send(
     `🛠️🔪 Round ${round} — Task & Kill Phase\n\n` +
-    `Complete your assigned task by mentioning @mafia with your answer: @mafia /task <value>\n` +
+    `Complete your assigned tasks privately: DM me task <answer>\n` +
     `Phase duration: ${Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS) / 1000} seconds.`
   );
 
-  // Send tasks one by one to all players
+  // Town roles pick their targets before the mafia is briefed
+  await sendRoleActionBriefings(round, agent, gameManager);
+
+  // The mafia can sabotage from the start, while tasks are still queued
+  await sendSabotageBriefing(round, agent, gameManager);
+
+  // Schedule tasks one by one for all players
   // Each player gets TASKS_PER_PLAYER tasks
   // All tasks must be sent 15 seconds before phase ends
   const players = gameManager.getAlivePlayers();
   const totalTasks = players.length * TASKS_PER_PLAYER;
-  const combinedPhaseDuration = Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS);
+  const combinedPhaseDuration = PHASE_GRAPH[Phase.TASKS].durationMs;
   const availableTime = combinedPhaseDuration - TASK_DISPATCH_BUFFER_MS;
   const intervalBetweenTasks = Math.floor(availableTime / totalTasks);
   
@@ -119,86 +362,489 @@ export async function startTaskAndKillPhase(
     }
   }
   
-  // Send tasks one by one with calculated intervals
+  // Each dispatch is a persisted timer so a restart mid-phase resumes the queue
   for (let i = 0; i < taskQueue.length; i++) {
     const { player, taskIndex } = taskQueue[i];
-    const task = gameManager.getTaskForPlayer(player.inboxId, taskIndex);
-    
-    if (task) {
-      try {
-        // Get player address for mention
-        const playerAddress = await getPlayerAddress(agent, player.inboxId, group);
-        const addressMention = playerAddress
-          ? `@${formatAddressForMention(playerAddress)}`
-          : `@${player.username}`;
-
-        // Send task to group with player mention
-        // Mafia also gets tasks that they can fake complete
-        await group.send(
-          `${addressMention}\n\n🛠️ Task ${taskIndex + 1}/${TASKS_PER_PLAYER}:\n\n${task.question}\n\nSubmit your answer: @mafia /task <answer>`
-        );
-      } catch (error) {
-        console.error(`Failed to send task to ${player.username}:`, error);
-        // Fallback: send without address mention
-        try {
-          await group.send(
-            `@${player.username}\n\n🛠️ Task ${taskIndex + 1}/${TASKS_PER_PLAYER}:\n\n${task.question}\n\nSubmit your answer: @mafia /task <answer>`
-          );
-        } catch (fallbackError) {
-          console.error(`Failed to send fallback task message:`, fallbackError);
-        }
-      }
+    scheduleTimer(
+      `taskDispatch-${round}-${i}`,
+      i * intervalBetweenTasks,
+      "dispatchTask",
+      gameManager,
+      { round, inboxId: player.inboxId, taskIndex }
+    );
+  }
+
+  // Send kill instructions to mafia once the last task has gone out
+  scheduleTimer(
+    `killBriefing-${round}`,
+    Math.max(0, taskQueue.length - 1) * intervalBetweenTasks,
+    "killBriefing",
+    gameManager,
+    { round }
+  );
+
+  // After combined phase duration, move to discussion phase
+  setPhaseTimer(
+    `taskAndKillPhase-${round}`,
+    combinedPhaseDuration,
+    "taskAndKillPhaseEnd",
+    gameManager,
+    { round }
+  );
+}
+
+/**
+ * Send a single task to the lobby, mentioning its player.
+ * Memory tasks are sent in two steps: the content to memorize, then the
+ * question once the memorize time is up.
+ */
+export async function dispatchTask(
+  round: number,
+  inboxId: string,
+  taskIndex: number,
+  agent: Agent,
+  gameManager: GameManager,
+  skipMemorize = false
+) {
+  const lobbyId = gameManager.getGame().lobbyGroupId;
+  if (!lobbyId) return;
+
+  const group = await agent.client.conversations.getConversationById(lobbyId);
+  if (!group) return;
+
+  const player = gameManager.getPlayer(inboxId);
+  const task = gameManager.getTaskForPlayer(inboxId, taskIndex);
+  if (!player || !player.isAlive || !task || gameManager.getGame().round !== round) {
+    return;
+  }
+
+  const header = `🛠️ Task ${taskIndex + 1}/${TASKS_PER_PLAYER}:`;
+  let body =
+    `${header}\n\n${task.question}\n\n` +
+    `Submit your answer privately within ${TASK_EXPIRY_SECONDS} seconds: DM me task <answer>`;
+
+  if (task.memorize && !skipMemorize) {
+    const seconds = Math.round(task.memorize.durationMs / 1000);
+    body = `${header}\n\n🧠 Memorize this:\n\n${task.memorize.content}\n\nThe question follows in ${seconds} seconds.`;
+    scheduleTimer(
+      `taskDispatch-${round}-${inboxId}-${taskIndex}-question`,
+      task.memorize.durationMs,
+      "dispatchTaskQuestion",
+      gameManager,
+      { round, inboxId, taskIndex }
+    );
+  } else {
+    // The task can be answered from now until it expires
+    gameManager.markTaskDispatched(inboxId, taskIndex);
+    scheduleTimer(
+      `taskExpiry-${round}-${inboxId}-${taskIndex}`,
+      TASK_EXPIRY_MS,
+      "taskExpired",
+      gameManager,
+      { round, inboxId, taskIndex }
+    );
+  }
+
+  try {
+    // Get player address for mention
+    const playerAddress = await getPlayerAddress(agent, player.inboxId, group);
+    const addressMention = playerAddress
+      ? `@${formatAddressForMention(playerAddress)}`
+      : `@${player.username}`;
+
+    // Send task to group with player mention
+    // Mafia also gets tasks that they can fake complete
+    await group.send(`${addressMention}\n\n${body}`);
+  } catch (error) {
+    console.error(`Failed to send task to ${player.username}:`, error);
+    // Fallback: send without address mention
+    try {
+      await group.send(`@${player.username}\n\n${body}`);
+    } catch (fallbackError) {
+      console.error(`Failed to send fallback task message:`, fallbackError);
+    }
+  }
+}
+
+// Special town roles and the action they take each Task & Kill phase
+const ROLE_BRIEFINGS: Partial<Record<Role, { action: RoleAction; text: string }>> = {
+  [Role.DOCTOR]: {
+    action: "protect",
+    text: "🩺 Choose one player to protect this round.\nKill attempts on them will fail.",
+  },
+  [Role.DETECTIVE]: {
+    action: "investigate",
+    text: "🔍 Choose one player to investigate this round.\nYou will privately learn if they are MAFIA or TOWN.",
+  },
+};
+
+/**
+ * DM special town roles their action buttons for this round
+ */
+export async function sendRoleActionBriefings(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  for (const player of gameManager.getAlivePlayers()) {
+    const briefing = player.role ? ROLE_BRIEFINGS[player.role] : undefined;
+    if (!briefing) {
+      continue;
     }
-    
-    // Wait for the calculated interval before sending next task
-    // Don't wait after the last task
-    if (i < taskQueue.length - 1) {
-      await new Promise((resolve) => setTimeout(resolve, intervalBetweenTasks));
+
+    try {
+      const dm = await agent.client.conversations.newDm(player.inboxId);
+      await dm.send(`Round ${round} — Task & Kill Phase\n\n${briefing.text}`);
+      await sendRoleActionButtons(
+        agent,
+        dm,
+        gameManager,
+        round,
+        briefing.action,
+        player.inboxId
+      );
+    } catch (error) {
+      console.error(`Failed to send ${briefing.action} DM to ${player.username}:`, error);
     }
   }
+}
 
-  // Send kill instructions to mafia via DM
-  const impostorInboxId = gameManager.getGame().impostorInboxId;
-  if (impostorInboxId) {
-    const impostor = gameManager.getPlayer(impostorInboxId);
-    if (impostor && impostor.isAlive) {
-      try {
-        const dm = await agent.client.conversations.newDm(impostorInboxId);
-        
-        // Send kill instructions
-        await dm.send(
-          `Round ${round} — Task & Kill Phase\n\n` +
-          `You must fake complete tasks while also attempting kills.\n\n` +
-          `Success chance: ${(KILL_SUCCESS_CHANCE * 100).toFixed(0)}%\n` +
-          `Max attempts: ${MAX_KILL_ATTEMPTS}\n` +
-          `Cooldown: ${KILL_COOLDOWN_SECONDS} seconds per attempt\n` +
-          `Phase duration: ${Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS) / 1000} seconds\n\n` +
-          `Select a target using the buttons below:`
-        );
+/**
+ * DM the mafia their kill instructions and target buttons
+ */
+export async function sendKillBriefing(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  for (const impostor of gameManager.getAliveMafia()) {
+    try {
+      const dm = await agent.client.conversations.newDm(impostor.inboxId);
+
+      // Send kill instructions
+      await dm.send(
+        `Round ${round} — Task & Kill Phase\n\n` +
+        `You must fake complete tasks while also attempting kills.\n\n` +
+        `Success chance: ${(KILL_SUCCESS_CHANCE * 100).toFixed(0)}%\n` +
+        `Max attempts: ${MAX_KILL_ATTEMPTS}\n` +
+        `Cooldown: ${KILL_COOLDOWN_SECONDS} seconds per attempt\n` +
+        `Phase duration: ${Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS) / 1000} seconds\n\n` +
+        `Select a target using the buttons below:`
+      );
 
-        // Send kill buttons
-        await sendKillButtons(agent, dm, gameManager, round, impostorInboxId);
-      } catch (error) {
-        console.error("Failed to send kill phase DM:", error);
+      // Send kill buttons
+      await sendKillButtons(agent, dm, gameManager, round);
+    } catch (error) {
+      console.error(`Failed to send kill phase DM to ${impostor.username}:`, error);
+    }
+  }
+
+  // The mafia team group gets its own set of kill buttons
+  const mafiaGroupId = gameManager.getGame().mafiaGroupId;
+  if (mafiaGroupId && gameManager.getAliveMafia().length > 0) {
+    try {
+      const mafiaGroup = await agent.client.conversations.getConversationById(mafiaGroupId);
+      if (mafiaGroup) {
+        await sendKillButtons(agent, mafiaGroup, gameManager, round);
       }
+    } catch (error) {
+      console.error("Failed to send kill buttons to mafia group:", error);
     }
   }
+}
 
-  // After combined phase duration, move to discussion phase
-  const phaseDuration = Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS);
-  setPhaseTimer(`taskAndKillPhase-${round}`, phaseDuration, async () => {
-    // Only advance if we're still in task phase (not already advanced)
-    const currentState = gameManager.getState();
-    const isTaskPhase =
-      currentState === GameState.ROUND_1_TASKS ||
-      currentState === GameState.ROUND_2_TASKS ||
-      currentState === GameState.ROUND_3_TASKS;
-
-    if (isTaskPhase) {
-      await gameManager.advancePhase();
-      await startDiscussionPhase(round, agent, gameManager);
+/**
+ * DM the mafia (and its team group) the sabotage buttons for this round
+ */
+export async function sendSabotageBriefing(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  for (const impostor of gameManager.getAliveMafia()) {
+    try {
+      const dm = await agent.client.conversations.newDm(impostor.inboxId);
+      await sendSabotageButtons(agent, dm, gameManager, round);
+    } catch (error) {
+      console.error(`Failed to send sabotage DM to ${impostor.username}:`, error);
+    }
+  }
+
+  const mafiaGroupId = gameManager.getGame().mafiaGroupId;
+  if (mafiaGroupId && gameManager.getAliveMafia().length > 0) {
+    try {
+      const mafiaGroup = await agent.client.conversations.getConversationById(mafiaGroupId);
+      if (mafiaGroup) {
+        await sendSabotageButtons(agent, mafiaGroup, gameManager, round);
+      }
+    } catch (error) {
+      console.error("Failed to send sabotage buttons to mafia group:", error);
     }
-  }, gameManager);
+  }
+}
+
+/**
+ * Called after a task is completed: announces task progress milestones, ends
+ * the game if the town has finished its tasks, and otherwise checks whether
+ * the Task & Kill phase can end early
+ */
+export async function handleTaskCompleted(
+  agent: Agent,
+  gameManager: GameManager,
+  inboxId: string,
+  taskIndex: number
+) {
+  const lobbyId = gameManager.getGame().lobbyGroupId;
+  const group = lobbyId ? await agent.client.conversations.getConversationById(lobbyId) : null;
+
+  // The lobby only learns that a task was done, never the answer
+  const player = gameManager.getPlayer(inboxId);
+  if (player) {
+    await group?.send(
+      `✅ ${player.username} completed task ${taskIndex + 1}/${TASKS_PER_PLAYER}`
+    );
+  }
+
+  await sendTaskClue(agent, gameManager, inboxId);
+
+  const milestone = gameManager.takeTaskMilestone();
+  if (milestone !== null) {
+    await group?.send(`📈 Town task progress: ${formatTaskProgressBar(gameManager.getTaskProgress())}`);
+  }
+
+  if (gameManager.hasTownCompletedTasks()) {
+    await endGame(Faction.TOWN, agent, gameManager);
+    return;
+  }
+
+  await checkTaskAndKillPhaseDone(agent, gameManager);
+}
+
+/**
+ * A dispatched task ran out of time: mark it failed and tell the lobby who missed it
+ */
+export async function handleTaskExpired(
+  round: number,
+  inboxId: string,
+  taskIndex: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  const game = gameManager.getGame();
+  const player = gameManager.getPlayer(inboxId);
+  if (!isTaskPhase(game) || game.round !== round || !player?.isAlive) {
+    return;
+  }
+
+  if (!gameManager.expireTask(inboxId, taskIndex)) {
+    return;
+  }
+
+  if (game.lobbyGroupId) {
+    const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+    await group?.send(`⌛ ${player.username} missed task ${taskIndex + 1}/${TASKS_PER_PLAYER}.`);
+  }
+
+  await checkTaskAndKillPhaseDone(agent, gameManager);
+}
+
+/**
+ * Reward a town member's completed task with a private clue (logged for the post-game reveal)
+ */
+async function sendTaskClue(agent: Agent, gameManager: GameManager, inboxId: string) {
+  const player = gameManager.getPlayer(inboxId);
+  if (!TASK_CLUES_ENABLED || !player || getRoleFaction(player.role) !== Faction.TOWN) {
+    return;
+  }
+
+  const clue = generateClue(gameManager, player);
+  if (!clue) {
+    return;
+  }
+
+  try {
+    const dm = await agent.client.conversations.newDm(inboxId);
+    await dm.send(`🧩 Clue\n\n${clue}`);
+    gameManager.logEvent(GameEventType.CLUE, `🧩 ${player.username} received a clue: ${clue}`);
+  } catch (error) {
+    console.error(`Failed to send clue to ${player.username}:`, error);
+  }
+}
+
+export function formatTaskProgressBar(progress: number, width = 10): string {
+  const filled = Math.round((progress / 100) * width);
+  return `${"█".repeat(filled)}${"░".repeat(width - filled)} ${progress}%`;
+}
+
+/**
+ * Public snapshot of a game: round, phase, time left, who's alive and task progress
+ */
+export function formatGameStatus(gameManager: GameManager): string {
+  const game = gameManager.getGame();
+  const players = Array.from(game.players.values());
+  const alive = players.filter((p) => p.isAlive).map((p) => p.username);
+  const eliminated = players.filter((p) => !p.isAlive).map((p) => p.username);
+
+  if (game.state === GameState.LOBBY_CREATED || game.state === GameState.WAITING_FOR_PLAYERS) {
+    const timeLeft = formatTimeRemaining(game.joinDeadline);
+    return (
+      `📊 Game Status\n\n🚀 Lobby open — ${players.length}/${MAX_PLAYERS} players joined` +
+      (timeLeft ? `\n⏰ Time left to join: ${timeLeft}` : "") +
+      `\n\n👥 Players: ${players.map((p) => p.username).join(", ") || "none yet"}`
+    );
+  }
+
+  let stage: string;
+  if (game.state === GameState.IN_ROUND && game.phase) {
+    const timeLeft = formatTimeRemaining(game.currentPhaseDeadline);
+    stage =
+      `Round ${game.round}/${game.maxRounds} — ${PHASE_GRAPH[game.phase].label} phase` +
+      (timeLeft ? `\n⏰ Time left: ${timeLeft}` : "");
+  } else if (game.state === GameState.ASSIGN_ROLES) {
+    stage = "🎭 The game is starting: roles are being dealt.";
+  } else {
+    stage = "🏁 The game is wrapping up.";
+  }
+
+  let message =
+    `📊 Game Status\n\n${stage}\n\n` +
+    `🟢 Alive (${alive.length}): ${alive.join(", ") || "none"}`;
+  if (eliminated.length > 0) {
+    message += `\n💀 Eliminated (${eliminated.length}): ${eliminated.join(", ")}`;
+  }
+  if (game.taskGoal > 0) {
+    message += `\n\n📈 Town task progress: ${formatTaskProgressBar(gameManager.getTaskProgress())}`;
+  }
+  return message;
+}
+
+/**
+ * A player's tasks this round: what's done, what's missed, the current one and
+ * what hasn't been sent yet (unsent questions stay hidden)
+ */
+export function formatTaskList(gameManager: GameManager, inboxId: string): string {
+  const game = gameManager.getGame();
+  const tasks = gameManager.getAllTasksForPlayer(inboxId);
+  if (tasks.length === 0) {
+    return "📋 You have no tasks yet. Tasks are handed out in the Task & Kill phase.";
+  }
+
+  const currentIndex = game.currentTaskIndex.get(inboxId) ?? 0;
+  const lines = tasks.map((task, index) => {
+    const label = `${index + 1}/${tasks.length}`;
+    if (task.completed) {
+      return `✅ ${label} ${task.question} (completed)`;
+    }
+    if (task.failed) {
+      return `⌛ ${label} ${task.question} (missed)`;
+    }
+    if (!task.dispatchedAt) {
+      return `⏳ ${label} Not sent yet`;
+    }
+
+    const timeLeft = formatTimeRemaining(task.expiresAt ?? null);
+    const marker = index === currentIndex ? "👉" : "🛠️";
+    return `${marker} ${label} ${task.question}${timeLeft ? ` (${timeLeft} left)` : ""}`;
+  });
+
+  const done = tasks.filter((task) => task.completed).length;
+  return (
+    `📋 Your tasks — Round ${game.round} (${done}/${tasks.length} completed)\n\n` +
+    `${lines.join("\n")}\n\n` +
+    `Answer privately: DM me task <answer>`
+  );
+}
+
+/**
+ * Whether the current phase timer is already about to fire (e.g. the phase was
+ * already ended early)
+ */
+function isPhaseEnding(gameManager: GameManager, withinMs: number): boolean {
+  const deadline = gameManager.getGame().currentPhaseDeadline;
+  return deadline !== null && deadline - Date.now() <= withinMs;
+}
+
+/**
+ * End the Task & Kill phase early once there's nothing left to do in it:
+ * every town task is done and the mafia has used all of its kill attempts
+ */
+export async function checkTaskAndKillPhaseDone(agent: Agent, gameManager: GameManager) {
+  const game = gameManager.getGame();
+  if (
+    !isTaskPhase(game) ||
+    !gameManager.allTownTasksComplete() ||
+    !gameManager.isMafiaOutOfKills() ||
+    isPhaseEnding(gameManager, EARLY_PHASE_END_DELAY_MS)
+  ) {
+    return;
+  }
+
+  endTaskAndKillPhaseEarly(game.round, gameManager);
+
+  if (game.lobbyGroupId) {
+    const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+    await group?.send("⏩ All tasks are done and the mafia is out of kill attempts. Moving on.");
+  }
+}
+
+/**
+ * End the Task & Kill phase ahead of its timer (e.g. after a successful kill)
+ */
+export function endTaskAndKillPhaseEarly(
+  round: number,
+  gameManager: GameManager,
+  delayMs = EARLY_PHASE_END_DELAY_MS
+) {
+  clearTimersByPrefix(`taskDispatch-${round}-`, gameManager);
+  clearTimersByPrefix(`taskExpiry-${round}-`, gameManager);
+  clearPhaseTimer(`killBriefing-${round}`, gameManager);
+  setPhaseTimer(
+    `taskAndKillPhase-${round}`,
+    delayMs,
+    "taskAndKillPhaseEnd",
+    gameManager,
+    { round }
+  );
+}
+
+/**
+ * Apply a sabotage the mafia just paid for (see GameManager.sabotage) and tell the lobby
+ */
+export async function applySabotage(agent: Agent, gameManager: GameManager, type: SabotageType) {
+  const { lobbyGroupId, round } = gameManager.getGame();
+  const group = lobbyGroupId
+    ? await agent.client.conversations.getConversationById(lobbyGroupId)
+    : null;
+
+  if (type === SabotageType.SCRAMBLE) {
+    const scrambled = gameManager.scrambleTasks();
+    await group?.send("🌀 Sabotage! The mafia scrambled the tasks. Every open task has been replaced.");
+
+    // Tasks that were already sent (or are mid-memorize) go out again
+    for (const { inboxId, taskIndex } of scrambled) {
+      const questionTimer = `taskDispatch-${round}-${inboxId}-${taskIndex}-question`;
+      const isQueued = Array.from(gameManager.getGame().scheduledTimers.values()).some(
+        (timer) =>
+          timer.handlerId === "dispatchTask" &&
+          timer.payload.inboxId === inboxId &&
+          timer.payload.taskIndex === taskIndex
+      );
+      if (!isQueued) {
+        clearPhaseTimer(questionTimer, gameManager);
+        await dispatchTask(round, inboxId, taskIndex, agent, gameManager);
+      }
+    }
+  } else if (type === SabotageType.DELAY) {
+    // GameManager.sabotage only allows a delay while tasks are still queued
+    delayTimersByPrefix(`taskDispatch-${round}-`, SABOTAGE_DISPATCH_DELAY_MS, gameManager);
+    await group?.send(
+      `⏳ Sabotage! The mafia jammed the task dispatcher. New tasks are delayed by ${SABOTAGE_DISPATCH_DELAY_SECONDS} seconds.`
+    );
+  } else {
+    await group?.send(
+      `🤫 Sabotage! The mafia will silence the first ${SILENCE_DURATION_SECONDS} seconds of the next discussion.`
+    );
+  }
 }
 
 export async function startDiscussionPhase(
@@ -212,12 +858,26 @@ export async function startDiscussionPhase(
   const group = await agent.client.conversations.getConversationById(lobbyId);
   if (!group) return;
 
-  await group.send(`💬 Discussion Phase — ${DISCUSSION_PHASE_DURATION_SECONDS} seconds.\n\nTalk freely.`);
+  const nominationText =
+    gameManager.getGame().votingMode === VotingMode.TRIAL
+      ? `\n\nNominate a suspect with @mafia nominate <username>. ` +
+        `${gameManager.getNominationsNeeded()} nominations put a player on trial.`
+      : "";
+  const silenced = gameManager.beginSilence(SILENCE_DURATION_MS);
+  const openingText = silenced
+    ? `🤫 The mafia has silenced the first ${SILENCE_DURATION_SECONDS} seconds. Hold your tongues: I won't take any commands until it lifts.`
+    : "Talk freely.";
+  await group.send(
+    `💬 Discussion Phase — ${DISCUSSION_PHASE_DURATION_SECONDS} seconds.\n\n${openingText}${nominationText}`
+  );
+
+  if (silenced) {
+    scheduleTimer(`silence-${round}`, SILENCE_DURATION_MS, "silenceEnd", gameManager, { round });
+  }
 
-  setPhaseTimer(`discussion-${round}`, DISCUSSION_PHASE_DURATION_MS, async () => {
-    await gameManager.advancePhase();
-    await startVotingPhase(round, agent, gameManager);
-  }, gameManager);
+  setPhaseTimer(`discussion-${round}`, PHASE_GRAPH[Phase.DISCUSSION].durationMs, "discussionEnd", gameManager, {
+    round,
+  });
 }
 
 export async function startVotingPhase(
@@ -231,28 +891,33 @@ export async function startVotingPhase(
   const group = await agent.client.conversations.getConversationById(lobbyId);
   if (!group) return;
 
+  // Reset votes before voting opens so no early vote is erased
+  gameManager.resetVotes();
+
   // Send voting phase announcement
+  const { votingRule, anonymousVoting } = gameManager.getGame();
+  const anonymityText = anonymousVoting
+    ? "\nVotes are anonymous: only totals are shown. To vote by text, DM me vote <username>."
+    : "";
   await group.send(
     `🗳️ Voting Phase\n\n` +
+      `Rule: ${getVotingRuleDescription(votingRule)}. A tie goes to a runoff.${anonymityText}\n\n` +
       `Vote to eliminate a player using the buttons below:`
   );
 
   // Send voting buttons
   await sendVotingButtons(agent, group, gameManager, round);
 
-  // Reset votes
-  for (const player of gameManager.getAlivePlayers()) {
-    player.voted = false;
-    player.voteTarget = null;
-  }
-
   // Wait for votes, then process after timer
-  setPhaseTimer(`voting-${round}`, VOTING_PHASE_DURATION_MS, async () => {
-    await processVoting(round, agent, gameManager);
-  }, gameManager);
+  setPhaseTimer(`voting-${round}`, PHASE_GRAPH[Phase.VOTING].durationMs, "votingEnd", gameManager, {
+    round,
+  });
 }
 
-export async function processVoting(
+/**
+ * Re-vote between the players tied in the regular vote
+ */
+export async function startRunoffPhase(
   round: number,
   agent: Agent,
   gameManager: GameManager
@@ -263,42 +928,267 @@ export async function processVoting(
   const group = await agent.client.conversations.getConversationById(lobbyId);
   if (!group) return;
 
-  const results = gameManager.getVoteResults();
+  const candidates = gameManager.getVoteCandidates();
+  gameManager.resetVotes();
 
-  if (results.length === 0) {
-    await group.send("No votes cast. No one eliminated.");
-  } else {
-    const topResult = results[0];
-    const aliveCount = gameManager.getAlivePlayers().length;
-    const majority = Math.ceil(aliveCount / 2);
+  await group.send(
+    `⚖️ Runoff Vote — ${RUNOFF_PHASE_DURATION_SECONDS} seconds.\n\n` +
+      `Only ${candidates.map((p) => `@${p.username}`).join(" and ")} can be voted for.`
+  );
 
-    if (topResult.votes >= majority) {
-      const eliminated = gameManager.getPlayer(topResult.target);
-      if (eliminated) {
-        await gameManager.eliminatePlayer(topResult.target);
+  const { durationMs } = PHASE_GRAPH[Phase.RUNOFF];
+  await sendVotingButtons(agent, group, gameManager, round, candidates, durationMs);
 
-        const roleEmoji = eliminated.role === "IMPOSTOR" ? "🔥" : "❌";
-        const roleText = eliminated.role === "IMPOSTOR" ? "MAFIA" : "TOWN";
+  setPhaseTimer(`runoff-${round}`, durationMs, "votingEnd", gameManager, {
+    round,
+  });
+}
 
-        await group.send(
-          `${roleEmoji} @${eliminated.username} was eliminated.\n\n` +
-            `They were a ${roleText}.`
-        );
+/**
+ * Called after a vote is cast or changed: posts the live tally when the game
+ * has one, and closes the vote once every alive player has voted
+ */
+export async function handleVoteCast(agent: Agent, gameManager: GameManager, isNewVote: boolean) {
+  const game = gameManager.getGame();
+  if (!game.lobbyGroupId) {
+    return;
+  }
 
-        // Check win condition
-        const winCheck = gameManager.checkWinCondition();
-        if (winCheck.gameEnded) {
-          await endGame(winCheck.winner, agent, gameManager);
-          return;
-        }
-      }
-    } else {
-      await group.send("Tie or no majority. No one eliminated.");
+  try {
+    const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+
+    if (game.liveVoteTally && isNewVote) {
+      const voters = gameManager.getAlivePlayers();
+      const voted = voters.filter((p) => p.voted).length;
+      await group?.send(`🗳️ ${voted}/${voters.length} voted`);
+    }
+
+    if (
+      isVotingPhase(game) &&
+      gameManager.haveAllVoted() &&
+      !isPhaseEnding(gameManager, EARLY_PHASE_END_DELAY_MS)
+    ) {
+      endVotingPhaseEarly(game.round, gameManager);
+      await group?.send("⏩ Everyone has voted. Counting the votes...");
     }
+  } catch (error) {
+    console.error("Failed to handle vote:", error);
+  }
+}
+
+/**
+ * Close the vote (or runoff) ahead of its timer
+ */
+export function endVotingPhaseEarly(
+  round: number,
+  gameManager: GameManager,
+  delayMs = EARLY_PHASE_END_DELAY_MS
+) {
+  const timerName = isRunoffPhase(gameManager.getGame()) ? `runoff-${round}` : `voting-${round}`;
+  setPhaseTimer(timerName, delayMs, "votingEnd", gameManager, { round });
+}
+
+/**
+ * Who voted for whom, or just the totals when voting is anonymous
+ */
+export function formatVoteBreakdown(gameManager: GameManager): string {
+  const nameOf = (target: string) =>
+    target === SKIP_VOTE ? "⏭️ skip" : gameManager.getPlayer(target)?.username ?? "unknown";
+
+  if (gameManager.getGame().anonymousVoting) {
+    const totals = gameManager
+      .getVoteResults()
+      .map((r) => `• ${nameOf(r.target)}: ${r.votes}`)
+      .join("\n");
+    return `📊 Vote totals\n${totals}`;
+  }
+
+  const lines = gameManager
+    .getAlivePlayers()
+    .map((p) =>
+      p.voted && p.voteTarget
+        ? `• ${p.username} → ${nameOf(p.voteTarget)}`
+        : `• ${p.username} didn't vote`
+    )
+    .join("\n");
+  return `📊 Votes\n${lines}`;
+}
+
+/**
+ * Called after a nomination: once a player goes on trial, discussion ends early
+ */
+export async function handleNomination(
+  agent: Agent,
+  gameManager: GameManager,
+  onTrial: Player | undefined
+) {
+  if (!onTrial) {
+    return;
+  }
+
+  const game = gameManager.getGame();
+  setPhaseTimer(`discussion-${game.round}`, EARLY_PHASE_END_DELAY_MS, "discussionEnd", gameManager, {
+    round: game.round,
+  });
+
+  if (game.lobbyGroupId) {
+    const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+    await group?.send(`⚖️ @${onTrial.username} has been nominated and goes on trial!`);
+  }
+}
+
+export async function startDefensePhase(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  const { lobbyGroupId, trialInboxId } = gameManager.getGame();
+  const defendant = trialInboxId ? gameManager.getPlayer(trialInboxId) : undefined;
+  if (!lobbyGroupId) return;
+  if (!defendant) {
+    // Nobody to try: move on without an elimination
+    await finishVote(agent, gameManager);
+    return;
   }
 
-  // Check win condition before advancing to next round
-  // If mafia was eliminated, game should have already ended
+  const group = await agent.client.conversations.getConversationById(lobbyGroupId);
+  if (!group) return;
+
+  await group.send(
+    `⚖️ Trial of @${defendant.username} — ${DEFENSE_PHASE_DURATION_SECONDS} seconds.\n\n` +
+      `@${defendant.username}, make your defense. Everyone else will then vote guilty or innocent.`
+  );
+
+  setPhaseTimer(`defense-${round}`, PHASE_GRAPH[Phase.DEFENSE].durationMs, "defenseEnd", gameManager, {
+    round,
+  });
+}
+
+export async function startVerdictPhase(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  const { lobbyGroupId, trialInboxId } = gameManager.getGame();
+  const defendant = trialInboxId ? gameManager.getPlayer(trialInboxId) : undefined;
+  if (!lobbyGroupId) return;
+  if (!defendant) {
+    // Nobody to try: move on without an elimination
+    await finishVote(agent, gameManager);
+    return;
+  }
+
+  const group = await agent.client.conversations.getConversationById(lobbyGroupId);
+  if (!group) return;
+
+  await group.send(
+    `⚖️ Verdict — ${VERDICT_PHASE_DURATION_SECONDS} seconds.\n\n` +
+      `@${defendant.username} is eliminated if guilty votes outnumber innocent votes.`
+  );
+
+  const { durationMs } = PHASE_GRAPH[Phase.VERDICT];
+  await sendVerdictButtons(agent, group, defendant, round, durationMs);
+
+  setPhaseTimer(`verdict-${round}`, durationMs, "verdictEnd", gameManager, {
+    round,
+  });
+}
+
+/**
+ * Called after a guilty/innocent vote: posts the live tally and closes the
+ * verdict once every voter has voted
+ */
+export async function handleVerdictCast(agent: Agent, gameManager: GameManager, isNewVote: boolean) {
+  const game = gameManager.getGame();
+  if (!game.lobbyGroupId) {
+    return;
+  }
+
+  try {
+    const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+    const voters = gameManager.getVerdictVoters();
+    const voted = voters.filter((p) => game.verdicts.has(p.inboxId)).length;
+
+    if (game.liveVoteTally && isNewVote) {
+      await group?.send(`⚖️ ${voted}/${voters.length} voted`);
+    }
+
+    if (voted === voters.length && !isPhaseEnding(gameManager, EARLY_PHASE_END_DELAY_MS)) {
+      setPhaseTimer(`verdict-${game.round}`, EARLY_PHASE_END_DELAY_MS, "verdictEnd", gameManager, {
+        round: game.round,
+      });
+      await group?.send("⏩ Everyone has voted. Reading the verdict...");
+    }
+  } catch (error) {
+    console.error("Failed to handle verdict vote:", error);
+  }
+}
+
+/**
+ * Guilty votes must outnumber innocent votes to eliminate the defendant
+ */
+export async function processVerdict(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  const game = gameManager.getGame();
+  const defendant = game.trialInboxId ? gameManager.getPlayer(game.trialInboxId) : undefined;
+  if (!game.lobbyGroupId) return;
+  if (!defendant) {
+    await finishVote(agent, gameManager);
+    return;
+  }
+
+  const group = await agent.client.conversations.getConversationById(game.lobbyGroupId);
+  if (!group) return;
+
+  const totals = gameManager.getVerdictTotals();
+  if (game.anonymousVoting) {
+    await group.send(
+      `📊 Verdict totals\n• Guilty: ${totals[Verdict.GUILTY]}\n• Innocent: ${totals[Verdict.INNOCENT]}`
+    );
+  } else {
+    const lines = gameManager
+      .getVerdictVoters()
+      .map((p) => `• ${p.username} → ${game.verdicts.get(p.inboxId) ?? "didn't vote"}`)
+      .join("\n");
+    await group.send(`📊 Verdict\n${lines}`);
+  }
+
+  if (totals[Verdict.GUILTY] > totals[Verdict.INNOCENT]) {
+    await announceElimination(group, gameManager, defendant.inboxId);
+  } else {
+    await group.send(`🕊️ @${defendant.username} was found innocent. No one eliminated.`);
+  }
+
+  await finishVote(agent, gameManager);
+}
+
+/**
+ * Eliminate a player by vote and reveal their faction
+ */
+async function announceElimination(group: any, gameManager: GameManager, inboxId: string) {
+  const eliminated = gameManager.getPlayer(inboxId);
+  if (!eliminated) {
+    return;
+  }
+
+  await gameManager.eliminatePlayer(inboxId);
+
+  const faction = getRoleFaction(eliminated.role);
+  const roleEmoji = getFactionEmoji(faction);
+
+  await group.send(
+    `${roleEmoji} @${eliminated.username} was eliminated.\n\n` +
+      `They were a ${faction}.`
+  );
+}
+
+/**
+ * After a vote is decided: end the game if a faction has won, otherwise move on
+ */
+async function finishVote(agent: Agent, gameManager: GameManager) {
   const winCheck = gameManager.checkWinCondition();
   if (winCheck.gameEnded) {
     await endGame(winCheck.winner, agent, gameManager);
@@ -306,28 +1196,92 @@ export async function processVoting(
   }
 
   // Advance to next round or end game
-  if (round < MAX_ROUNDS) {
-    await gameManager.advancePhase();
-    const nextRound = round + 1;
-    await gameManager.startRound(nextRound);
-    // Start combined task and kill phase
-    await startTaskAndKillPhase(nextRound, agent, gameManager);
+  await advanceToNextPhase(agent, gameManager);
+}
+
+/**
+ * Count the votes under the game's voting rule and eliminate, start a runoff,
+ * or move on
+ */
+export async function processVoting(
+  round: number,
+  agent: Agent,
+  gameManager: GameManager
+) {
+  const lobbyId = gameManager.getGame().lobbyGroupId;
+  if (!lobbyId) return;
+
+  const group = await agent.client.conversations.getConversationById(lobbyId);
+  if (!group) return;
+
+  const isRunoff = isRunoffPhase(gameManager.getGame());
+  const outcome = gameManager.tallyVotes();
+  gameManager.setRunoffCandidates([]);
+
+  if (outcome.type !== "no-votes") {
+    await group.send(formatVoteBreakdown(gameManager));
+  }
+
+  const username = (inboxId: string) =>
+    `@${gameManager.getPlayer(inboxId)?.username ?? "unknown"}`;
+
+  if (outcome.type === "no-votes") {
+    await group.send("No votes cast. No one eliminated.");
+  } else if (outcome.type === "skip") {
+    await group.send(`⏭️ Skip wins with ${outcome.votes} vote${outcome.votes === 1 ? "" : "s"}. No one eliminated.`);
+  } else if (outcome.type === "tie" && isRunoff) {
+    await group.send(
+      `⚖️ The runoff is tied again (${outcome.votes} votes each). No one eliminated.`
+    );
+  } else if (outcome.type === "tie") {
+    // The phase graph moves on to the runoff when there are runoff candidates
+    gameManager.setRunoffCandidates(outcome.candidates);
+    await group.send(
+      `⚖️ Tie between ${outcome.candidates.map(username).join(", ")} ` +
+        `(${outcome.votes} votes each). Going to a runoff.`
+    );
+    await advanceToNextPhase(agent, gameManager);
+    return;
+  } else if (outcome.type === "no-majority") {
+    await group.send(
+      `No majority: ${username(outcome.top.target)} got ${outcome.top.votes} of the ` +
+        `${outcome.needed} votes needed. No one eliminated.`
+    );
   } else {
-    // Game end - mafia wins if still alive
-    const finalWinCheck = gameManager.checkWinCondition();
-    await endGame(finalWinCheck.winner || "IMPOSTOR", agent, gameManager);
+    await announceElimination(group, gameManager, outcome.target);
   }
+
+  await finishVote(agent, gameManager);
 }
 
+// Winner announcement for each faction
+const WIN_MESSAGES: Record<Faction, (gameManager: GameManager) => string> = {
+  [Faction.TOWN]: (gameManager) =>
+    gameManager.getAliveMafia().length === 0
+      ? "🏆 TOWN WINS! The mafia was eliminated."
+      : `🏆 TOWN WINS! The town completed ${gameManager.getTaskProgress()}% of its tasks.`,
+  [Faction.MAFIA]: (gameManager) => {
+    const reason =
+      gameManager.getAliveMafia().length >= gameManager.getAliveTown().length
+        ? "The mafia now equals or outnumbers the town."
+        : `Survived all ${gameManager.getGame().maxRounds} rounds.`;
+    return `🔥 MAFIA WINS! ${reason}`;
+  },
+  [Faction.JESTER]: (gameManager) => {
+    const jesterInboxId = gameManager.getGame().jesterWinnerInboxId;
+    const jester = jesterInboxId ? gameManager.getPlayer(jesterInboxId) : undefined;
+    return `🃏 JESTER WINS! @${jester?.username ?? "The Jester"} fooled the town into voting them out.`;
+  },
+};
+
 export async function endGame(
-  winner: "CREW" | "IMPOSTOR" | null,
+  winner: Faction | null,
   agent: Agent,
   gameManager: GameManager
 ) {
   if (!winner) return;
 
   // Clear all timers when game ends
-  const { clearAllTimers } = await import("../utils/timers.js");
   clearAllTimers(gameManager);
 
   const lobbyId = gameManager.getGame().lobbyGroupId;
@@ -336,12 +1290,38 @@ export async function endGame(
   const group = await agent.client.conversations.getConversationById(lobbyId);
   if (!group) return;
 
-  if (winner === "CREW") {
-    await group.send("🏆 TOWN WINS! Mafia was eliminated.");
-  } else {
-    await group.send(`🔥 MAFIA WINS! Survived all ${MAX_ROUNDS} rounds.`);
-  }
+  const mafiaTeam = gameManager
+    .getMafiaPlayers()
+    .map((p) => `@${p.username}${p.isAlive ? "" : " (eliminated)"}`)
+    .join(", ");
+
+  await group.send(`${WIN_MESSAGES[winner](gameManager)}\n\n🔥 Mafia: ${mafiaTeam}`);
+
+  await group.send(formatPostGameReveal(gameManager));
 
   await gameManager.cleanup();
 }
 
+/**
+ * Post-game reveal: every player's role plus the private actions logged during the game
+ */
+export function formatPostGameReveal(gameManager: GameManager): string {
+  const game = gameManager.getGame();
+  const roles = Array.from(game.players.values())
+    .map(
+      (p) =>
+        `• ${p.username} — ${getRoleLabel(p.role)}${p.isAlive ? "" : " (eliminated)"}`
+    )
+    .join("\n");
+
+  let message = `📜 Post-game reveal\n\n${roles}`;
+
+  if (game.history.length > 0) {
+    const events = game.history
+      .map((event) => `Round ${event.round}: ${event.message}`)
+      .join("\n");
+    message += `\n\n🗒️ Game log\n${events}`;
+  }
+
+  return message;
+}
@@ -0,0 +1,190 @@
+import type { GameManager } from "../gameManager.js";
+import { GameState, Phase, Role, SabotageType, VotingMode, type Player } from "../types.js";
+import {
+  MAX_PLAYERS,
+  MAX_ROUNDS,
+  MIN_PLAYERS_TO_START,
+  KILL_COOLDOWN_MS,
+  KILL_SUCCESS_CHANCE,
+  MAX_KILL_ATTEMPTS,
+  MAX_SABOTAGES_PER_ROUND,
+  SABOTAGE_COOLDOWN_SECONDS,
+  SILENCE_DURATION_SECONDS,
+  TASKS_PER_PLAYER,
+  TASK_EXPIRY_SECONDS,
+  TASK_WIN_PERCENTAGE,
+  TASK_DIFFICULTY_BY_ROUND,
+  ADAPTIVE_TASK_DIFFICULTY,
+  DEFAULT_VOTING_RULE,
+  DEFAULT_VOTING_MODE,
+  LIVE_VOTE_TALLY,
+  ANONYMOUS_VOTING,
+  NOMINATIONS_FOR_TRIAL,
+} from "../config/gameConfig.js";
+import { DEFAULT_PRESET, getRolePreset } from "../config/rolePresets.js";
+import { PHASE_GRAPH } from "./phases.js";
+import { getVotingRuleDescription } from "../utils/votingRules.js";
+
+/**
+ * Where a /help or /rules command was sent from
+ */
+export type HelpLocation = "dm" | "lobby" | "mafia" | "group";
+
+const START_USAGE =
+  "@mafia /start [classic|chaos|custom] [mafia=<count>] [voting=plurality|majority|cast] " +
+  "[mode=vote|trial] [tally=on|off] [anonymous=on|off]";
+
+// Private actions a role can take in a DM with the agent
+function getRoleCommands(player: Player, gameManager: GameManager): string[] {
+  const commands = ["task <answer> — answer one of your tasks", "/tasks — list your tasks"];
+  if (gameManager.isMafia(player.inboxId)) {
+    commands.push(
+      "kill <username> — attempt a kill (Task & Kill phase)",
+      `sabotage ${Object.values(SabotageType).join("|")} — sabotage the town (Task & Kill phase)`
+    );
+  } else if (player.role === Role.DOCTOR) {
+    commands.push("protect <username> — protect a player this round");
+  } else if (player.role === Role.DETECTIVE) {
+    commands.push("investigate <username> — learn if a player is MAFIA or TOWN");
+  }
+  return commands;
+}
+
+// Votes and nominations taken in the lobby, by voting mode
+function getLobbyCommands(gameManager: GameManager): string[] {
+  if (gameManager.getGame().votingMode === VotingMode.TRIAL) {
+    return [
+      "@mafia nominate <username> — put a player up for trial (discussion phase)",
+      "@mafia guilty / @mafia innocent — vote on the player on trial (verdict phase)",
+    ];
+  }
+  if (gameManager.getGame().anonymousVoting) {
+    return [
+      "vote <username> (by DM) — vote to eliminate a player, or use the buttons (voting phase)",
+      "vote skip (by DM) — vote to eliminate no one",
+    ];
+  }
+  return [
+    "@mafia vote <username> — vote to eliminate a player (voting phase)",
+    "@mafia vote skip — vote to eliminate no one",
+  ];
+}
+
+/**
+ * List the commands available to the caller where they are: in a DM, the
+ * lobby, the mafia team chat or another group, depending on whether they are
+ * playing, still alive and what role they have.
+ */
+export function formatHelp(
+  gameManager: GameManager | undefined,
+  senderInboxId: string,
+  location: HelpLocation
+): string {
+  const player = gameManager?.getPlayer(senderInboxId);
+  const state = gameManager?.getState() ?? GameState.IDLE;
+  const isLobbyOpen = state === GameState.LOBBY_CREATED || state === GameState.WAITING_FOR_PLAYERS;
+  const mention = location === "dm" ? "" : "@mafia ";
+  const commands: string[] = [];
+  let note = "";
+
+  if (!gameManager || state === GameState.IDLE) {
+    if (location === "dm") {
+      note = "You're not in a game. Add me to a group and start one there.";
+    } else {
+      commands.push(`${START_USAGE} — create a game lobby`);
+    }
+  } else if (!player) {
+    if (isLobbyOpen) {
+      commands.push(
+        location === "lobby" ? "@mafia /join — join the game" : "Press 🚀 Join Game to join the lobby"
+      );
+    } else {
+      note = "A game is in progress here. You can follow along with /status.";
+    }
+  } else if (isLobbyOpen) {
+    note = "You're in the lobby. The game starts when the join window closes or the lobby is full.";
+  } else if (!player.isAlive) {
+    note = "💀 You've been eliminated. You can still follow the game, but not act.";
+  } else if (location === "dm") {
+    commands.push(...getRoleCommands(player, gameManager));
+  } else if (location === "mafia") {
+    commands.push(
+      "kill <username> — attempt a kill",
+      `sabotage ${Object.values(SabotageType).join("|")} — sabotage the town`
+    );
+  } else if (location === "lobby") {
+    commands.push(
+      ...getLobbyCommands(gameManager),
+      "@mafia /tasks — get your task list by DM",
+      "Answer tasks privately in a DM with me: task <answer>"
+    );
+  } else {
+    // Votes and nominations are only taken in the lobby
+    note = "Voting happens in the game lobby. Ask for /help there to see how.";
+    commands.push(
+      "@mafia /tasks — get your task list by DM",
+      "Answer tasks privately in a DM with me: task <answer>"
+    );
+  }
+
+  if (gameManager && state !== GameState.IDLE) {
+    commands.push(`${mention}/status — round, phase, time left and players`);
+  }
+  commands.push(`${mention}/rules — this game's settings`, `${mention}/help — this list`);
+
+  return (
+    `❓ Help\n\n` +
+    (note ? `${note}\n\n` : "") +
+    commands.map((command) => `• ${command}`).join("\n")
+  );
+}
+
+/**
+ * The active game's settings (or the defaults when there is no game)
+ */
+export function formatRules(gameManager: GameManager | undefined): string {
+  const game = gameManager && gameManager.getState() !== GameState.IDLE ? gameManager.getGame() : null;
+  const preset = getRolePreset(game?.preset ?? DEFAULT_PRESET);
+  const votingMode = game?.votingMode ?? DEFAULT_VOTING_MODE;
+  const votingRule = game?.votingRule ?? DEFAULT_VOTING_RULE;
+  const liveVoteTally = game?.liveVoteTally ?? LIVE_VOTE_TALLY;
+  const anonymousVoting = game?.anonymousVoting ?? ANONYMOUS_VOTING;
+  const killChance = game?.killSuccessChance ?? KILL_SUCCESS_CHANCE;
+  const killCooldown = game?.killCooldown ?? KILL_COOLDOWN_MS;
+  const maxKillAttempts = game?.maxKillAttempts ?? MAX_KILL_ATTEMPTS;
+  const maxSabotages = game?.maxSabotages ?? MAX_SABOTAGES_PER_ROUND;
+
+  const modePhases =
+    votingMode === VotingMode.TRIAL
+      ? [Phase.TASKS, Phase.DISCUSSION, Phase.DEFENSE, Phase.VERDICT]
+      : [Phase.TASKS, Phase.DISCUSSION, Phase.VOTING, Phase.RUNOFF];
+  const phases = modePhases
+    .map((phase) => `${PHASE_GRAPH[phase].label} ${PHASE_GRAPH[phase].durationMs / 1000}s`)
+    .join(", ");
+  const votingText =
+    votingMode === VotingMode.TRIAL
+      ? `Trial: ${NOMINATIONS_FOR_TRIAL} nominations put a player on trial, then a guilty/innocent vote`
+      : `Vote: ${getVotingRuleDescription(votingRule)}. A tie goes to a runoff`;
+  const taskWinText =
+    TASK_WIN_PERCENTAGE > 0
+      ? `The town also wins by completing ${TASK_WIN_PERCENTAGE}% of its tasks`
+      : "Tasks don't win the game on their own";
+
+  return (
+    `📜 Rules${game ? "" : " (defaults)"}\n\n` +
+    `👥 Players: ${MIN_PLAYERS_TO_START}-${MAX_PLAYERS}\n` +
+    `🔁 Rounds: ${game?.maxRounds ?? MAX_ROUNDS}\n` +
+    `🎭 Role preset: ${preset ? `${preset.name} — ${preset.description}` : game?.preset}\n` +
+    `⏱️ Phases: ${phases}\n\n` +
+    `🔪 Kills: ${(killChance * 100).toFixed(0)}% success chance, ${killCooldown / 1000}s cooldown, ` +
+    `${maxKillAttempts} attempts per mafia member per round\n` +
+    `🛠️ Sabotage: ${maxSabotages} per round for the mafia team, ${SABOTAGE_COOLDOWN_SECONDS}s cooldown each. ` +
+    `A silenced discussion takes no lobby commands for ${SILENCE_DURATION_SECONDS}s\n\n` +
+    `📋 Tasks: ${TASKS_PER_PLAYER} per player per round, ${TASK_EXPIRY_SECONDS}s to answer each\n` +
+    `📈 Difficulty: ${TASK_DIFFICULTY_BY_ROUND.join(" → ").toLowerCase()} by round` +
+    `${ADAPTIVE_TASK_DIFFICULTY ? ", adjusted to each player's speed" : ""}\n` +
+    `🏆 ${taskWinText}\n\n` +
+    `🗳️ ${votingText}\n` +
+    `Live tally: ${liveVoteTally ? "on" : "off"} · Anonymous votes: ${anonymousVoting ? "on" : "off"}`
+  );
+}
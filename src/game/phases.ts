@@ -0,0 +1,157 @@
+import { GameState, Phase, VotingMode, type Game } from "../types.js";
+import {
+  TASK_PHASE_DURATION_MS,
+  KILL_PHASE_DURATION_MS,
+  DISCUSSION_PHASE_DURATION_MS,
+  VOTING_PHASE_DURATION_MS,
+  RUNOFF_PHASE_DURATION_MS,
+  DEFENSE_PHASE_DURATION_MS,
+  VERDICT_PHASE_DURATION_MS,
+} from "../config/gameConfig.js";
+
+/**
+ * Declarative phase graph.
+ * A game in progress is at a (round, phase) position; each phase names the
+ * phase that follows it within the round (null ends the round). Phases can be
+ * optional (skipped when `enabled` returns false) and transitions can be
+ * computed from game state.
+ */
+export interface PhaseDefinition {
+  label: string;
+  durationMs: number;
+  /** Next phase in the round, or null to end the round */
+  next: Phase | null | ((game: Game) => Phase | null);
+  /** Optional phases are skipped when this returns false */
+  enabled?: (game: Game) => boolean;
+}
+
+export interface PhasePosition {
+  round: number;
+  phase: Phase;
+}
+
+export const FIRST_PHASE = Phase.TASKS;
+
+export const PHASE_GRAPH: Record<Phase, PhaseDefinition> = {
+  // Task and kill phases run simultaneously
+  [Phase.TASKS]: {
+    label: "Task & Kill",
+    durationMs: Math.max(TASK_PHASE_DURATION_MS, KILL_PHASE_DURATION_MS),
+    next: Phase.DISCUSSION,
+  },
+  [Phase.DISCUSSION]: {
+    label: "Discussion",
+    durationMs: DISCUSSION_PHASE_DURATION_MS,
+    // In trial mode the round goes to a trial only if someone was nominated
+    next: (game) => {
+      if (game.votingMode !== VotingMode.TRIAL) {
+        return Phase.VOTING;
+      }
+      return game.trialInboxId ? Phase.DEFENSE : null;
+    },
+    enabled: () => DISCUSSION_PHASE_DURATION_MS > 0,
+  },
+  [Phase.VOTING]: {
+    label: "Voting",
+    durationMs: VOTING_PHASE_DURATION_MS,
+    // A tied vote goes to a runoff between the tied players
+    next: (game) => (game.runoffCandidates.length > 0 ? Phase.RUNOFF : null),
+  },
+  [Phase.RUNOFF]: {
+    label: "Runoff",
+    durationMs: RUNOFF_PHASE_DURATION_MS,
+    next: null,
+  },
+  [Phase.DEFENSE]: {
+    label: "Defense",
+    durationMs: DEFENSE_PHASE_DURATION_MS,
+    next: Phase.VERDICT,
+  },
+  [Phase.VERDICT]: {
+    label: "Verdict",
+    durationMs: VERDICT_PHASE_DURATION_MS,
+    next: null,
+  },
+};
+
+function resolveNext(phase: Phase, game: Game): Phase | null {
+  const { next } = PHASE_GRAPH[phase];
+  return typeof next === "function" ? next(game) : next;
+}
+
+function isEnabled(phase: Phase, game: Game): boolean {
+  const { enabled } = PHASE_GRAPH[phase];
+  return enabled ? enabled(game) : true;
+}
+
+/**
+ * Follow transitions from a phase until an enabled one is found
+ */
+function firstEnabledFrom(phase: Phase | null, game: Game): Phase | null {
+  const visited = new Set<Phase>();
+  let current = phase;
+  while (current && !isEnabled(current, game)) {
+    if (visited.has(current)) {
+      return null; // Cycle of disabled phases
+    }
+    visited.add(current);
+    current = resolveNext(current, game);
+  }
+  return current;
+}
+
+/**
+ * The first enabled phase of a round
+ */
+export function getFirstPhase(game: Game): Phase {
+  return firstEnabledFrom(FIRST_PHASE, game) ?? FIRST_PHASE;
+}
+
+/**
+ * Where the game goes after the current phase, or null when the last round is over
+ */
+export function getNextPhase(game: Game): PhasePosition | null {
+  if (!game.phase) {
+    return null;
+  }
+
+  const next = firstEnabledFrom(resolveNext(game.phase, game), game);
+  if (next) {
+    return { round: game.round, phase: next };
+  }
+
+  if (game.round >= game.maxRounds) {
+    return null;
+  }
+
+  return { round: game.round + 1, phase: getFirstPhase(game) };
+}
+
+export function isInPhase(game: Game, phase: Phase): boolean {
+  return game.state === GameState.IN_ROUND && game.phase === phase;
+}
+
+export function isTaskPhase(game: Game): boolean {
+  return isInPhase(game, Phase.TASKS);
+}
+
+export function isDiscussionPhase(game: Game): boolean {
+  return isInPhase(game, Phase.DISCUSSION);
+}
+
+// Votes are accepted in both the regular vote and a runoff
+export function isVotingPhase(game: Game): boolean {
+  return isInPhase(game, Phase.VOTING) || isRunoffPhase(game);
+}
+
+export function isRunoffPhase(game: Game): boolean {
+  return isInPhase(game, Phase.RUNOFF);
+}
+
+export function isVerdictPhase(game: Game): boolean {
+  return isInPhase(game, Phase.VERDICT);
+}
+
+export function isFinalRound(game: Game): boolean {
+  return game.round >= game.maxRounds;
+}
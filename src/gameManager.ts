@@ -2,14 +2,35 @@ import type { Agent } from "@xmtp/agent-sdk";
 import type { Group } from "@xmtp/agent-sdk";
 import type { Dm } from "@xmtp/agent-sdk";
 import {
+  Faction,
+  GameEventType,
   GameState,
   Role,
+  SabotageType,
+  SKIP_VOTE,
+  Verdict,
+  VotingMode,
+  VotingRule,
   type Game,
+  type LobbyOptions,
   type Player,
   type Task,
+  type TaskDifficulty,
+  type VoteOutcome,
   type VoteResult,
 } from "./types.js";
-import { generateTask, validateTaskAnswer } from "./tasks.js";
+import { generateTask, shiftDifficulty, validateTaskAnswer } from "./tasks/index.js";
+import type { GameStore } from "./storage/gameStore.js";
+import {
+  getFirstPhase,
+  getNextPhase,
+  isTaskPhase,
+  isVotingPhase,
+  isRunoffPhase,
+  isDiscussionPhase,
+  isVerdictPhase,
+  isFinalRound,
+} from "./game/phases.js";
 import {
   MAX_PLAYERS,
   MAX_ROUNDS,
@@ -20,37 +41,115 @@ import {
   JOIN_WINDOW_DURATION_MS,
   KILL_COOLDOWN_SECONDS,
   TASKS_PER_PLAYER,
+  DEFAULT_VOTING_RULE,
+  LIVE_VOTE_TALLY,
+  ANONYMOUS_VOTING,
+  DEFAULT_VOTING_MODE,
+  NOMINATIONS_FOR_TRIAL,
+  TASK_WIN_PERCENTAGE,
+  TASK_PROGRESS_MILESTONES,
+  MAX_SABOTAGES_PER_ROUND,
+  SABOTAGE_COOLDOWN_MS,
+  TASK_EXPIRY_MS,
+  TASK_DIFFICULTY_BY_ROUND,
+  ADAPTIVE_TASK_DIFFICULTY,
+  FAST_SOLVE_MS,
+  SLOW_SOLVE_MS,
 } from "./config/gameConfig.js";
+import { DEFAULT_PRESET, getPresetLineup } from "./config/rolePresets.js";
+import { shuffle } from "./utils/helpers.js";
+import { getRoleFaction } from "./utils/roles.js";
+import { SABOTAGES } from "./utils/sabotageButtons.js";
+
+// A task can be answered once it has been sent and until it expires
+function isTaskOpen(task: Task, now: number): boolean {
+  return (
+    !!task.dispatchedAt &&
+    !task.completed &&
+    !task.failed &&
+    (task.expiresAt === undefined || now < task.expiresAt)
+  );
+}
+
+function createIdleGame(): Game {
+  return {
+    state: GameState.IDLE,
+    lobbyGroupId: null,
+    originalGroupId: null,
+    players: new Map(),
+    round: 0,
+    phase: null,
+    roundStartedAt: null,
+    maxRounds: MAX_ROUNDS,
+    startTime: null,
+    joinDeadline: null,
+    currentPhaseDeadline: null,
+    mafiaInboxIds: [],
+    mafiaGroupId: null,
+    protectedInboxId: null,
+    investigatorsThisRound: [],
+    history: [],
+    jesterWinnerInboxId: null,
+    preset: DEFAULT_PRESET,
+    mafiaCount: null,
+    votingRule: DEFAULT_VOTING_RULE,
+    runoffCandidates: [],
+    liveVoteTally: LIVE_VOTE_TALLY,
+    anonymousVoting: ANONYMOUS_VOTING,
+    votingMode: DEFAULT_VOTING_MODE,
+    nominations: new Map(),
+    trialInboxId: null,
+    verdicts: new Map(),
+    taskGoal: 0,
+    realTasksCompleted: 0,
+    taskMilestone: 0,
+    eliminatedPlayers: new Set(),
+    killCooldown: KILL_COOLDOWN_MS,
+    killSuccessChance: KILL_SUCCESS_CHANCE,
+    maxKillAttempts: MAX_KILL_ATTEMPTS,
+    sabotagesUsed: 0,
+    maxSabotages: MAX_SABOTAGES_PER_ROUND,
+    sabotageReadyAt: new Map(),
+    silencePending: false,
+    silencedUntil: null,
+    taskAssignments: new Map(),
+    currentTaskIndex: new Map(),
+    scheduledTimers: new Map(),
+  };
+}
 
 export class GameManager {
   private game: Game;
   private agent: Agent;
+  private store: GameStore | null;
 
-  constructor(agent: Agent) {
+  constructor(agent: Agent, store: GameStore | null = null) {
     this.agent = agent;
-    this.game = {
-      state: GameState.IDLE,
-      lobbyGroupId: null,
-      originalGroupId: null,
-      players: new Map(),
-      round: 0,
-      startTime: null,
-      joinDeadline: null,
-      currentPhaseDeadline: null,
-      impostorInboxId: null,
-      eliminatedPlayers: new Set(),
-      killCooldown: KILL_COOLDOWN_MS,
-      killSuccessChance: KILL_SUCCESS_CHANCE,
-      maxKillAttempts: MAX_KILL_ATTEMPTS,
-      taskAssignments: new Map(),
-      currentTaskIndex: new Map(),
-    };
+    this.store = store;
+    this.game = createIdleGame();
   }
 
   getGame(): Game {
     return this.game;
   }
 
+  /**
+   * Replace in-memory state with a game loaded from the store
+   */
+  restore(game: Game): void {
+    // Fill in fields added since the game was saved
+    this.game = { ...createIdleGame(), ...game };
+  }
+
+  /**
+   * Persist the current game state (called after every state transition)
+   */
+  saveState(): void {
+    if (this.store && this.game.originalGroupId) {
+      this.store.save(this.game.originalGroupId, this.game);
+    }
+  }
+
   getState(): GameState {
     return this.game.state;
   }
@@ -63,7 +162,87 @@ export class GameManager {
     return Array.from(this.game.players.values()).filter((p) => p.isAlive);
   }
 
-  async createLobby(originalGroupId: string): Promise<string> {
+  isMafia(inboxId: string): boolean {
+    return this.game.mafiaInboxIds.includes(inboxId);
+  }
+
+  getMafiaPlayers(): Player[] {
+    return this.game.mafiaInboxIds
+      .map((inboxId) => this.game.players.get(inboxId))
+      .filter((p): p is Player => p !== undefined);
+  }
+
+  getAliveMafia(): Player[] {
+    return this.getMafiaPlayers().filter((p) => p.isAlive);
+  }
+
+  getAliveTown(): Player[] {
+    return this.getAlivePlayers().filter((p) => !this.isMafia(p.inboxId));
+  }
+
+  /**
+   * Whether every alive non-mafia player has finished all of their tasks,
+   * completed or missed (mafia tasks are fake and don't count)
+   */
+  allTownTasksComplete(): boolean {
+    return this.getAliveTown().every((p) =>
+      (this.game.taskAssignments.get(p.inboxId) ?? []).every((task) => task.completed || task.failed)
+    );
+  }
+
+  // A dead town player can't finish their open tasks or get new ones, so those leave the task goal
+  private removeFromTaskGoal(player: Player): void {
+    if (getRoleFaction(player.role) !== Faction.TOWN) {
+      return;
+    }
+
+    const openTasks = this.getAllTasksForPlayer(player.inboxId).filter(
+      (task) => !task.completed && !task.failed
+    ).length;
+    const futureTasks = Math.max(0, this.game.maxRounds - this.game.round) * TASKS_PER_PLAYER;
+    this.game.taskGoal = Math.max(0, this.game.taskGoal - openTasks - futureTasks);
+  }
+
+  /**
+   * Global task progress (percent of all real tasks in the game)
+   */
+  getTaskProgress(): number {
+    if (this.game.taskGoal === 0) {
+      return 0;
+    }
+    return Math.min(100, Math.floor((this.game.realTasksCompleted / this.game.taskGoal) * 100));
+  }
+
+  hasTownCompletedTasks(): boolean {
+    return TASK_WIN_PERCENTAGE > 0 && this.getTaskProgress() >= TASK_WIN_PERCENTAGE;
+  }
+
+  /**
+   * The highest progress milestone reached since the last one announced, if any
+   */
+  takeTaskMilestone(): number | null {
+    const progress = this.getTaskProgress();
+    const reached = TASK_PROGRESS_MILESTONES.filter(
+      (milestone) => milestone > this.game.taskMilestone && milestone <= progress
+    );
+    if (reached.length === 0) {
+      return null;
+    }
+
+    this.game.taskMilestone = Math.max(...reached);
+    this.saveState();
+    return this.game.taskMilestone;
+  }
+
+  isMafiaOutOfKills(): boolean {
+    return this.getAliveMafia().every((p) => p.killAttempts >= this.game.maxKillAttempts);
+  }
+
+  haveAllVoted(): boolean {
+    return this.getAlivePlayers().every((p) => p.voted);
+  }
+
+  async createLobby(originalGroupId: string, options: LobbyOptions = {}): Promise<string> {
     if (this.game.state !== GameState.IDLE) {
       throw new Error("Game already in progress");
     }
@@ -76,17 +255,33 @@ export class GameManager {
     const uniqueId = timestamp.toString().slice(-6); // Last 6 digits of timestamp
     const groupName = `🟥 MAFIA LOBBY #${uniqueId}`;
 
+    // Claim the session before the first await, so GameRegistry.prune and a
+    // repeated /start in the same group don't see it as idle
+    this.game.state = GameState.LOBBY_CREATED;
+    this.game.originalGroupId = originalGroupId;
+
     // Create group with just the agent initially (agent must be in group)
-    const group = await this.agent.client.conversations.newGroup([agentInboxId], {
-      groupName: groupName,
-      groupDescription: "A text-based social deduction game",
-    });
+    let group;
+    try {
+      group = await this.agent.client.conversations.newGroup([agentInboxId], {
+        groupName: groupName,
+        groupDescription: "A text-based social deduction game",
+      });
+    } catch (error) {
+      this.game = createIdleGame();
+      throw error;
+    }
 
-    this.game.state = GameState.LOBBY_CREATED;
     this.game.lobbyGroupId = group.id;
-    this.game.originalGroupId = originalGroupId;
     this.game.startTime = Date.now();
     this.game.joinDeadline = Date.now() + JOIN_WINDOW_DURATION_MS;
+    this.game.preset = options.preset ?? DEFAULT_PRESET;
+    this.game.mafiaCount = options.mafiaCount ?? null;
+    this.game.votingRule = options.votingRule ?? DEFAULT_VOTING_RULE;
+    this.game.liveVoteTally = options.liveVoteTally ?? LIVE_VOTE_TALLY;
+    this.game.anonymousVoting = options.anonymousVoting ?? ANONYMOUS_VOTING;
+    this.game.votingMode = options.votingMode ?? DEFAULT_VOTING_MODE;
+    this.saveState();
 
     return group.id;
   }
@@ -156,6 +351,7 @@ export class GameManager {
       role: null,
       isAlive: true,
       completedTasks: 0,
+      taskSolveTimesMs: [],
       killAttempts: 0,
       lastKillAttempt: null,
       voted: false,
@@ -164,6 +360,7 @@ export class GameManager {
 
     this.game.players.set(inboxId, player);
     this.game.state = GameState.WAITING_FOR_PLAYERS;
+    this.saveState();
 
     // Add player to group
     if (this.game.lobbyGroupId) {
@@ -195,57 +392,187 @@ export class GameManager {
       throw new Error("Cannot assign roles at this time");
     }
 
-    const playerArray = Array.from(this.game.players.values());
-    
-    // Randomly select impostor
-    const impostorIndex = Math.floor(Math.random() * playerArray.length);
-    const impostor = playerArray[impostorIndex];
-    
-    impostor.role = Role.IMPOSTOR;
-    this.game.impostorInboxId = impostor.inboxId;
+    const playerArray = shuffle(Array.from(this.game.players.values()));
+    const lineup = getPresetLineup(this.game.preset, playerArray.length);
 
-    // Assign crew to everyone else
-    for (const player of playerArray) {
-      if (player.inboxId !== impostor.inboxId) {
-        player.role = Role.CREW;
-      }
+    // Randomly select the mafia team
+    const mafiaCount = this.getMafiaCount(
+      playerArray.length,
+      lineup.filter((role) => role === Role.IMPOSTOR).length
+    );
+    const mafia = playerArray.slice(0, mafiaCount);
+    for (const player of mafia) {
+      player.role = Role.IMPOSTOR;
+    }
+    this.game.mafiaInboxIds = mafia.map((p) => p.inboxId);
+
+    // Deal the preset's other roles to the rest; everyone left over is a town member
+    const others = playerArray.slice(mafiaCount);
+    for (const player of others) {
+      player.role = Role.CREW;
     }
+    lineup
+      .filter((role) => role !== Role.IMPOSTOR)
+      .slice(0, others.length)
+      .forEach((role, i) => {
+        others[i].role = role;
+      });
+
+    // Every town-faction player's tasks across all rounds make up the task goal
+    const townCount = playerArray.filter((p) => getRoleFaction(p.role) === Faction.TOWN).length;
+    this.game.taskGoal = townCount * TASKS_PER_PLAYER * this.game.maxRounds;
 
     this.game.state = GameState.ASSIGN_ROLES;
+    this.saveState();
 
     // Send role DMs
     await this.sendRoleDMs();
+
+    // Give a multi-member mafia a private place to coordinate
+    if (mafia.length > 1) {
+      await this.createMafiaGroup();
+    }
+  }
+
+  /**
+   * Create the hidden mafia team group and post the team roster there
+   */
+  private async createMafiaGroup(): Promise<void> {
+    try {
+      const uniqueId = Date.now().toString().slice(-6);
+      const group = await this.agent.client.conversations.newGroup(
+        this.game.mafiaInboxIds,
+        {
+          groupName: `🔥 MAFIA DEN #${uniqueId}`,
+          groupDescription: "Private mafia team chat",
+        }
+      );
+
+      this.game.mafiaGroupId = group.id;
+      this.saveState();
+
+      const roster = this.getMafiaPlayers()
+        .map((p) => `• ${p.username}`)
+        .join("\n");
+      await group.send(
+        `🔥 Mafia Team\n\n${roster}\n\n` +
+        `This chat is hidden from the town. Coordinate your kills here.\n` +
+        `Use the kill buttons or: kill <username> (no mention needed)`
+      );
+    } catch (error) {
+      console.error("Failed to create mafia group:", error);
+    }
+  }
+
+  /**
+   * Close the mafia team group: remove the members and mark it closed
+   */
+  private async teardownMafiaGroup(): Promise<void> {
+    const mafiaGroupId = this.game.mafiaGroupId;
+    if (!mafiaGroupId) {
+      return;
+    }
+
+    try {
+      const group = await this.agent.client.conversations.getConversationById(mafiaGroupId);
+      if (group && "removeMembers" in group) {
+        await group.send("🔥 The game is over. This chat is now closed.");
+        await (group as Group).removeMembers(this.game.mafiaInboxIds);
+        await (group as Group).updateName("🔥 MAFIA DEN (closed)");
+      }
+    } catch (error) {
+      console.error("Error tearing down mafia group:", error);
+    }
+    this.game.mafiaGroupId = null;
+  }
+
+  /**
+   * Mafia team size: the lobby's override, or the preset's count.
+   * Always at least 1 and always fewer than the town (otherwise mafia would win immediately).
+   */
+  private getMafiaCount(playerCount: number, presetCount: number): number {
+    const requested = this.game.mafiaCount ?? presetCount;
+    const maxMafia = Math.ceil(playerCount / 2) - 1;
+    return Math.max(1, Math.min(requested, maxMafia));
   }
 
   private async sendRoleDMs(): Promise<void> {
     for (const player of this.game.players.values()) {
       try {
         const dm = await this.agent.client.conversations.newDm(player.inboxId);
-        
+
+        let message: string;
         if (player.role === Role.IMPOSTOR) {
-          await dm.send(
+          const teammates = this.getMafiaPlayers()
+            .filter((p) => p.inboxId !== player.inboxId)
+            .map((p) => p.username);
+          const teamText =
+            teammates.length > 0
+              ? `Your fellow mafia: ${teammates.join(", ")}\n\n`
+              : "";
+
+          message =
             `[Private Message]\n\n` +
-            `You are the 🔥 MAFIA.\n\n` +
+            `You are ${teammates.length > 0 ? "a member of the" : "the"} 🔥 MAFIA.\n\n` +
+            teamText +
             `You must fake complete tasks while also attempting kills.\n` +
             `Task and Kill phases run simultaneously.\n\n` +
             `To fake complete tasks:\n` +
-            `@mafia /task <answer> (in group chat)\n` +
+            `task <answer> (in this DM)\n` +
             `You need to guess the correct answer to fake complete the task.\n\n` +
             `To attempt kills:\n` +
-            `kill <address> or kill <username> (in DM)\n\n` +
+            `kill <address> or kill <username> (in DM${teammates.length > 0 ? " or the mafia team chat" : ""})\n\n` +
             `Success chance: ${(KILL_SUCCESS_CHANCE * 100).toFixed(0)}%\n` +
             `Max attempts per round: ${MAX_KILL_ATTEMPTS}\n` +
-            `Cooldown: ${KILL_COOLDOWN_SECONDS} seconds per attempt`
-          );
+            `Cooldown: ${KILL_COOLDOWN_SECONDS} seconds per attempt\n\n` +
+            `To sabotage the town:\n` +
+            `sabotage scramble|delay|silence (${MAX_SABOTAGES_PER_ROUND} per round for the whole team)`;
+        } else if (player.role === Role.DOCTOR) {
+          message =
+            `[Private Message]\n\n` +
+            `You are the 🩺 DOCTOR (Town).\n\n` +
+            `Each Task & Kill phase you can protect one player (including yourself).\n` +
+            `Kill attempts on a protected player fail for the rest of the round.\n` +
+            `Use the buttons sent to you in DM, or: protect <username> (in DM)\n\n` +
+            `Complete tasks using:\n` +
+            `task <value> (in this DM)\n\n` +
+            `Your goal is to identify and vote out the mafia!`;
+        } else if (player.role === Role.DETECTIVE) {
+          message =
+            `[Private Message]\n\n` +
+            `You are the 🔍 DETECTIVE (Town).\n\n` +
+            `Each Task & Kill phase you can investigate one alive player\n` +
+            `and privately learn whether they are MAFIA or TOWN.\n` +
+            `Use the buttons sent to you in DM, or: investigate <username> (in DM)\n\n` +
+            `Complete tasks using:\n` +
+            `task <value> (in this DM)\n\n` +
+            `Your goal is to identify and vote out the mafia!`;
+        } else if (player.role === Role.JESTER) {
+          message =
+            `[Private Message]\n\n` +
+            `You are the 🃏 JESTER (Neutral).\n\n` +
+            `You win alone if the town votes you out.\n` +
+            `Act suspicious, but not too suspicious!\n\n` +
+            `You still receive tasks:\n` +
+            `task <value> (in this DM)`;
         } else {
-          await dm.send(
+          message =
             `[Private Message]\n\n` +
             `You are a ✅ TOWN MEMBER.\n\n` +
             `Complete tasks using:\n` +
-            `@mafia /task <value>\n\n` +
-            `Your goal is to identify and vote out the mafia!`
-          );
+            `task <value> (in this DM)\n\n` +
+            `Your goal is to identify and vote out the mafia!`;
         }
+
+        // Every role votes in the lobby
+        const votingText =
+          this.game.votingMode === VotingMode.TRIAL
+            ? `Nominate suspects in the lobby during discussion: @mafia nominate <username>`
+            : `Vote in the lobby during the voting phase: @mafia vote <username>`;
+        await dm.send(
+          `${message}\n\n${votingText}\n` +
+          `Send /help any time to see what you can do, or /rules for this game's settings.`
+        );
       } catch (error) {
         console.error(`Failed to send DM to ${player.username}:`, error);
       }
@@ -253,12 +580,23 @@ export class GameManager {
   }
 
   async startRound(round: number): Promise<void> {
-    if (round < 1 || round > MAX_ROUNDS) {
-      throw new Error(`Invalid round number. Must be between 1 and ${MAX_ROUNDS}`);
+    if (round < 1 || round > this.game.maxRounds) {
+      throw new Error(`Invalid round number. Must be between 1 and ${this.game.maxRounds}`);
     }
 
     this.game.round = round;
-    this.game.state = this.getStateForRoundPhase(round, "TASKS");
+    this.game.state = GameState.IN_ROUND;
+    this.game.phase = getFirstPhase(this.game);
+    this.game.roundStartedAt = Date.now();
+    this.game.protectedInboxId = null;
+    this.game.investigatorsThisRound = [];
+    this.game.runoffCandidates = [];
+    this.game.nominations.clear();
+    this.game.trialInboxId = null;
+    this.game.verdicts.clear();
+    this.game.sabotagesUsed = 0;
+    this.game.silencePending = false;
+    this.game.silencedUntil = null;
 
     // Reset player state for new round
     for (const player of this.game.players.values()) {
@@ -270,93 +608,140 @@ export class GameManager {
         
         // Assign multiple tasks to all players (including mafia)
         // Mafia gets fake tasks that they can fake complete
+        const difficulty = this.getTaskDifficulty(player);
         const tasks: Task[] = [];
         for (let i = 0; i < TASKS_PER_PLAYER; i++) {
-          tasks.push(generateTask());
+          tasks.push(generateTask(difficulty));
         }
         this.game.taskAssignments.set(player.inboxId, tasks);
         this.game.currentTaskIndex.set(player.inboxId, 0);
       }
     }
+
+    this.saveState();
   }
 
-  private getStateForRoundPhase(
-    round: number,
-    phase: "TASKS" | "KILL" | "DISCUSSION" | "VOTING"
-  ): GameState {
-    // TASKS phase now represents the combined Task & Kill phase
-    const stateMap: Record<number, Record<string, GameState>> = {
-      1: {
-        TASKS: GameState.ROUND_1_TASKS,
-        KILL: GameState.ROUND_1_TASKS, // Combined with TASKS
-        DISCUSSION: GameState.ROUND_1_DISCUSSION,
-        VOTING: GameState.ROUND_1_VOTING,
-      },
-      2: {
-        TASKS: GameState.ROUND_2_TASKS,
-        KILL: GameState.ROUND_2_TASKS, // Combined with TASKS
-        DISCUSSION: GameState.ROUND_2_DISCUSSION,
-        VOTING: GameState.ROUND_2_VOTING,
-      },
-      3: {
-        TASKS: GameState.ROUND_3_TASKS,
-        KILL: GameState.ROUND_3_TASKS, // Combined with TASKS
-        DISCUSSION: GameState.ROUND_3_DISCUSSION,
-        VOTING: GameState.ROUND_3_VOTING,
-      },
-    };
+  /**
+   * Task tier for a player this round: the round's tier, moved up for fast solvers
+   * and down for slow ones when adaptive difficulty is on
+   */
+  getTaskDifficulty(player: Player): TaskDifficulty {
+    const tierIndex = Math.min(this.game.round, TASK_DIFFICULTY_BY_ROUND.length) - 1;
+    const difficulty = TASK_DIFFICULTY_BY_ROUND[Math.max(tierIndex, 0)];
+
+    const solveTimes = player.taskSolveTimesMs ?? [];
+    if (!ADAPTIVE_TASK_DIFFICULTY || solveTimes.length === 0) {
+      return difficulty;
+    }
 
-    return stateMap[round]?.[phase] || GameState.IDLE;
+    const average = solveTimes.reduce((sum, time) => sum + time, 0) / solveTimes.length;
+    if (average <= FAST_SOLVE_MS) {
+      return shiftDifficulty(difficulty, 1);
+    }
+    if (average >= SLOW_SOLVE_MS) {
+      return shiftDifficulty(difficulty, -1);
+    }
+    return difficulty;
+  }
+
+  /**
+   * Record when a task's question was sent: it can be answered from now until it
+   * expires (solve times are measured from here too)
+   */
+  markTaskDispatched(inboxId: string, taskIndex: number): void {
+    const task = this.getTaskForPlayer(inboxId, taskIndex);
+    if (task && !task.dispatchedAt) {
+      task.dispatchedAt = Date.now();
+      task.expiresAt = task.dispatchedAt + TASK_EXPIRY_MS;
+      this.saveState();
+    }
   }
 
-  async completeTask(inboxId: string, answer: string): Promise<boolean> {
+  /**
+   * Submit an answer. It is checked against the player's open tasks: sent,
+   * not yet completed and not expired.
+   */
+  async completeTask(
+    inboxId: string,
+    answer: string
+  ): Promise<{ success: boolean; message: string; taskIndex?: number }> {
     const player = this.game.players.get(inboxId);
     if (!player || !player.isAlive) {
-      return false;
+      return { success: false, message: "You are not part of an active game or have been eliminated." };
     }
 
     // Check if we're in a task phase
-    const isTaskPhase =
-      this.game.state === GameState.ROUND_1_TASKS ||
-      this.game.state === GameState.ROUND_2_TASKS ||
-      this.game.state === GameState.ROUND_3_TASKS;
-
-    if (!isTaskPhase) {
-      return false;
+    if (!isTaskPhase(this.game)) {
+      return { success: false, message: "Tasks can only be completed during the Task & Kill phase." };
     }
 
-    const tasks = this.game.taskAssignments.get(inboxId);
-    if (!tasks || tasks.length === 0) {
-      return false;
-    }
+    const tasks = this.game.taskAssignments.get(inboxId) ?? [];
+    const now = Date.now();
+    const openTasks = tasks
+      .map((task, taskIndex) => ({ task, taskIndex }))
+      .filter(({ task }) => isTaskOpen(task, now));
 
-    // Get current task index
-    const currentIndex = this.game.currentTaskIndex.get(inboxId) || 0;
-    const task = tasks[currentIndex];
-    
-    if (!task || task.completed) {
-      return false;
+    if (openTasks.length === 0) {
+      const hasPending = tasks.some((task) => !task.dispatchedAt);
+      return {
+        success: false,
+        message: hasPending ? "Your next task hasn't been sent yet." : "You have no open tasks.",
+      };
     }
 
     // Trim and normalize the answer before validation
     const normalizedAnswer = answer.trim();
-    const isCorrect = validateTaskAnswer(task, normalizedAnswer);
+    const match = openTasks.find(({ task }) => validateTaskAnswer(task, normalizedAnswer));
     
     // Mafia can complete tasks if they guess correctly (fake task completion)
     // Town members must complete their real tasks
-    if (isCorrect) {
-      task.completed = true;
-      player.completedTasks++;
-      
-      // Move to next task if there are more
-      if (currentIndex < tasks.length - 1) {
-        this.game.currentTaskIndex.set(inboxId, currentIndex + 1);
-      }
-      
-      return true;
+    if (!match) {
+      return { success: false, message: "Task answer incorrect. Try again." };
+    }
+
+    const { task, taskIndex } = match;
+    task.completed = true;
+    task.completedAt = now;
+    player.completedTasks++;
+    if (task.dispatchedAt) {
+      player.taskSolveTimesMs = [...(player.taskSolveTimesMs ?? []), task.completedAt - task.dispatchedAt];
     }
 
-    return false;
+    // Only town tasks fill the global progress bar (not mafia fakes or the Jester)
+    if (getRoleFaction(player.role) === Faction.TOWN) {
+      this.game.realTasksCompleted++;
+    }
+
+    this.updateCurrentTaskIndex(inboxId);
+    this.saveState();
+    return { success: true, message: "Task completed!", taskIndex };
+  }
+
+  /**
+   * Mark a task failed when its time runs out. Returns false if it was already resolved.
+   */
+  expireTask(inboxId: string, taskIndex: number): boolean {
+    const task = this.getTaskForPlayer(inboxId, taskIndex);
+    if (!task || task.completed || task.failed) {
+      return false;
+    }
+
+    task.failed = true;
+    // A missed task counts as the slowest possible solve for adaptive difficulty
+    const player = this.game.players.get(inboxId);
+    if (player) {
+      player.taskSolveTimesMs = [...(player.taskSolveTimesMs ?? []), TASK_EXPIRY_MS];
+    }
+    this.updateCurrentTaskIndex(inboxId);
+    this.saveState();
+    return true;
+  }
+
+  // Point the current task index at the player's first unresolved task
+  private updateCurrentTaskIndex(inboxId: string): void {
+    const tasks = this.game.taskAssignments.get(inboxId) ?? [];
+    const next = tasks.findIndex((task) => !task.completed && !task.failed);
+    this.game.currentTaskIndex.set(inboxId, next === -1 ? Math.max(tasks.length - 1, 0) : next);
   }
 
   async attemptKill(
@@ -364,7 +749,7 @@ export class GameManager {
     targetIdentifier: string
   ): Promise<{ success: boolean; message: string }> {
     const impostor = this.game.players.get(impostorInboxId);
-    if (!impostor || !impostor.isAlive || impostor.role !== Role.IMPOSTOR) {
+    if (!impostor || !impostor.isAlive || !this.isMafia(impostorInboxId)) {
       return {
         success: false,
         message: "Only the mafia can attempt kills.",
@@ -372,12 +757,7 @@ export class GameManager {
     }
 
     // Check if we're in a task phase (kill phase runs simultaneously with task phase)
-    const isTaskPhase =
-      this.game.state === GameState.ROUND_1_TASKS ||
-      this.game.state === GameState.ROUND_2_TASKS ||
-      this.game.state === GameState.ROUND_3_TASKS;
-
-    if (!isTaskPhase) {
+    if (!isTaskPhase(this.game)) {
       return {
         success: false,
         message: "It's not the kill phase yet.",
@@ -435,6 +815,13 @@ export class GameManager {
       };
     }
 
+    if (this.isMafia(target.inboxId)) {
+      return {
+        success: false,
+        message: "You cannot kill a fellow mafia member.",
+      };
+    }
+
     // Check cooldown
     const now = Date.now();
     if (
@@ -462,16 +849,21 @@ export class GameManager {
     impostor.killAttempts++;
     impostor.lastKillAttempt = now;
 
-    const success = Math.random() < this.game.killSuccessChance;
+    // A protected target survives; the failure looks like any other miss
+    const isProtected = this.game.protectedInboxId === target.inboxId;
+    const success = !isProtected && Math.random() < this.game.killSuccessChance;
 
     if (success) {
       target.isAlive = false;
       this.game.eliminatedPlayers.add(target.inboxId);
+      this.removeFromTaskGoal(target);
+      this.saveState();
       return {
         success: true,
         message: `Kill SUCCESS!\n\n@${target.username} is eliminated.`,
       };
     } else {
+      this.saveState();
       const attemptsLeft = this.game.maxKillAttempts - impostor.killAttempts;
       return {
         success: false,
@@ -480,6 +872,213 @@ export class GameManager {
     }
   }
 
+  /**
+   * Mafia sabotage: checks the team's per-round budget and the sabotage's cooldown,
+   * then records it (the effect itself is applied by gameFlow.applySabotage)
+   */
+  sabotage(
+    impostorInboxId: string,
+    type: SabotageType
+  ): { success: boolean; message: string } {
+    const impostor = this.game.players.get(impostorInboxId);
+    if (!impostor || !impostor.isAlive || !this.isMafia(impostorInboxId)) {
+      return { success: false, message: "Only the mafia can sabotage." };
+    }
+
+    if (!isTaskPhase(this.game)) {
+      return { success: false, message: "You can only sabotage during the Task & Kill phase." };
+    }
+
+    const { emoji, label } = SABOTAGES[type];
+    const now = Date.now();
+    const readyAt = this.game.sabotageReadyAt.get(type) ?? 0;
+    if (now < readyAt) {
+      return {
+        success: false,
+        message: `${label} is on cooldown. Wait ${Math.ceil((readyAt - now) / 1000)} more seconds.`,
+      };
+    }
+
+    if (this.game.sabotagesUsed >= this.game.maxSabotages) {
+      return { success: false, message: "The mafia has used all its sabotages for this round." };
+    }
+
+    if (type === SabotageType.DELAY && !this.hasQueuedTaskDispatches()) {
+      return { success: false, message: "Every task has already been sent. There's nothing left to delay." };
+    }
+
+    if (type === SabotageType.SILENCE && this.game.silencePending) {
+      return { success: false, message: "The next discussion is already silenced." };
+    }
+
+    this.game.sabotagesUsed++;
+    this.game.sabotageReadyAt.set(type, now + SABOTAGE_COOLDOWN_MS);
+    if (type === SabotageType.SILENCE) {
+      this.game.silencePending = true;
+    }
+    this.logEvent(GameEventType.SABOTAGE, `${emoji} ${impostor.username} sabotaged: ${label}`);
+
+    const left = this.game.maxSabotages - this.game.sabotagesUsed;
+    return {
+      success: true,
+      message: `${emoji} ${label}: done.\n\nSabotages left this round: ${left}.`,
+    };
+  }
+
+  // Whether this round still has tasks waiting to be sent (what a delay sabotage pushes back)
+  private hasQueuedTaskDispatches(): boolean {
+    const prefix = `taskDispatch-${this.game.round}-`;
+    return Array.from(this.game.scheduledTimers.keys()).some((name) => name.startsWith(prefix));
+  }
+
+  /**
+   * Replace every open (not yet completed) task of the non-mafia players.
+   * Returns the replaced tasks so they can be sent out again.
+   */
+  scrambleTasks(): Array<{ inboxId: string; taskIndex: number }> {
+    const scrambled: Array<{ inboxId: string; taskIndex: number }> = [];
+    for (const player of this.getAliveTown()) {
+      const tasks = this.game.taskAssignments.get(player.inboxId) ?? [];
+      tasks.forEach((task, taskIndex) => {
+        if (!task.completed && !task.failed) {
+          tasks[taskIndex] = generateTask(task.difficulty);
+          scrambled.push({ inboxId: player.inboxId, taskIndex });
+        }
+      });
+    }
+
+    this.saveState();
+    return scrambled;
+  }
+
+  /**
+   * Start a pending silence sabotage (called when the discussion opens)
+   */
+  beginSilence(durationMs: number): boolean {
+    if (!this.game.silencePending) {
+      return false;
+    }
+
+    this.game.silencePending = false;
+    this.game.silencedUntil = Date.now() + durationMs;
+    this.saveState();
+    return true;
+  }
+
+  isDiscussionSilenced(): boolean {
+    return this.game.silencedUntil !== null && Date.now() < this.game.silencedUntil;
+  }
+
+  /**
+   * Doctor protects one alive player for the rest of the round
+   */
+  protectPlayer(
+    doctorInboxId: string,
+    targetIdentifier: string
+  ): { success: boolean; message: string } {
+    const doctor = this.game.players.get(doctorInboxId);
+    if (!doctor || !doctor.isAlive || doctor.role !== Role.DOCTOR) {
+      return { success: false, message: "Only the doctor can protect players." };
+    }
+
+    if (!isTaskPhase(this.game)) {
+      return {
+        success: false,
+        message: "You can only protect during the Task & Kill phase.",
+      };
+    }
+
+    if (this.game.protectedInboxId) {
+      return {
+        success: false,
+        message: "You have already protected a player this round.",
+      };
+    }
+
+    const target =
+      this.game.players.get(targetIdentifier) ||
+      this.getPlayerByUsername(targetIdentifier);
+    if (!target || !target.isAlive) {
+      return {
+        success: false,
+        message: `Player "${targetIdentifier}" not found or already eliminated.`,
+      };
+    }
+
+    this.game.protectedInboxId = target.inboxId;
+    this.saveState();
+    return {
+      success: true,
+      message: `🩺 You are protecting ${target.username} for the rest of this round.`,
+    };
+  }
+
+  /**
+   * Detective learns whether one alive player is MAFIA or TOWN (once per round)
+   */
+  investigatePlayer(
+    detectiveInboxId: string,
+    targetIdentifier: string
+  ): { success: boolean; message: string } {
+    const detective = this.game.players.get(detectiveInboxId);
+    if (!detective || !detective.isAlive || detective.role !== Role.DETECTIVE) {
+      return { success: false, message: "Only the detective can investigate players." };
+    }
+
+    if (!isTaskPhase(this.game)) {
+      return {
+        success: false,
+        message: "You can only investigate during the Task & Kill phase.",
+      };
+    }
+
+    if (this.game.investigatorsThisRound.includes(detectiveInboxId)) {
+      return {
+        success: false,
+        message: "You have already investigated a player this round.",
+      };
+    }
+
+    const target =
+      this.game.players.get(targetIdentifier) ||
+      this.getPlayerByUsername(targetIdentifier);
+    if (!target || !target.isAlive) {
+      return {
+        success: false,
+        message: `Player "${targetIdentifier}" not found or already eliminated.`,
+      };
+    }
+
+    if (target.inboxId === detectiveInboxId) {
+      return { success: false, message: "You cannot investigate yourself." };
+    }
+
+    const result = this.isMafia(target.inboxId) ? "MAFIA" : "TOWN";
+    this.game.investigatorsThisRound.push(detectiveInboxId);
+    this.logEvent(
+      GameEventType.INVESTIGATION,
+      `🔍 ${detective.username} investigated ${target.username}: ${result}`
+    );
+
+    return {
+      success: true,
+      message: `🔍 Investigation result: ${target.username} is ${result === "MAFIA" ? "🔥 MAFIA" : "✅ TOWN"}.`,
+    };
+  }
+
+  /**
+   * Record a private action in the game history (revealed after the game)
+   */
+  logEvent(type: GameEventType, message: string): void {
+    this.game.history.push({
+      type,
+      round: this.game.round,
+      timestamp: Date.now(),
+      message,
+    });
+    this.saveState();
+  }
+
   async castVote(voterInboxId: string, targetUsername: string): Promise<boolean> {
     const voter = this.game.players.get(voterInboxId);
     if (!voter || !voter.isAlive) {
@@ -487,12 +1086,7 @@ export class GameManager {
     }
 
     // Check if we're in voting phase
-    const isVotingPhase =
-      this.game.state === GameState.ROUND_1_VOTING ||
-      this.game.state === GameState.ROUND_2_VOTING ||
-      this.game.state === GameState.ROUND_3_VOTING;
-
-    if (!isVotingPhase) {
+    if (!isVotingPhase(this.game)) {
       return false;
     }
 
@@ -500,19 +1094,65 @@ export class GameManager {
       return false; // Already voted
     }
 
+    if (targetUsername.toLowerCase() === SKIP_VOTE) {
+      this.setVote(voterInboxId, SKIP_VOTE);
+      return true;
+    }
+
     const target = Array.from(this.game.players.values()).find(
       (p) => p.username.toLowerCase() === targetUsername.toLowerCase()
     );
 
-    if (!target || !target.isAlive) {
-      return false; // Target doesn't exist or is already eliminated
+    if (!target || !this.isVoteCandidate(target.inboxId)) {
+      return false; // Target doesn't exist, is eliminated, or isn't on the runoff ballot
     }
 
-    voter.voted = true;
-    voter.voteTarget = target.inboxId;
+    this.setVote(voterInboxId, target.inboxId);
     return true;
   }
 
+  /**
+   * Whether a player can be voted for (any alive player, or only the tied players in a runoff)
+   */
+  isVoteCandidate(inboxId: string): boolean {
+    const player = this.game.players.get(inboxId);
+    if (!player || !player.isAlive) {
+      return false;
+    }
+    return !isRunoffPhase(this.game) || this.game.runoffCandidates.includes(inboxId);
+  }
+
+  getVoteCandidates(): Player[] {
+    return this.getAlivePlayers().filter((p) => this.isVoteCandidate(p.inboxId));
+  }
+
+  setRunoffCandidates(inboxIds: string[]): void {
+    this.game.runoffCandidates = inboxIds;
+    this.saveState();
+  }
+
+  /**
+   * Record (or change) a player's vote
+   */
+  setVote(voterInboxId: string, targetInboxId: string): void {
+    const voter = this.game.players.get(voterInboxId);
+    if (!voter) {
+      return;
+    }
+
+    voter.voted = true;
+    voter.voteTarget = targetInboxId;
+    this.saveState();
+  }
+
+  resetVotes(): void {
+    for (const player of this.getAlivePlayers()) {
+      player.voted = false;
+      player.voteTarget = null;
+    }
+    this.saveState();
+  }
+
   getVoteResults(): VoteResult[] {
     const voteCounts = new Map<string, number>();
 
@@ -531,6 +1171,161 @@ export class GameManager {
       .sort((a, b) => b.votes - a.votes);
   }
 
+  /**
+   * Votes needed to eliminate a player under the game's voting rule
+   */
+  getVoteThreshold(): number {
+    switch (this.game.votingRule) {
+      case VotingRule.PLURALITY:
+        return 1;
+      case VotingRule.MAJORITY_CAST: {
+        const votesCast = this.getVoteResults().reduce((sum, r) => sum + r.votes, 0);
+        return Math.floor(votesCast / 2) + 1;
+      }
+      case VotingRule.MAJORITY_ALIVE:
+      default:
+        return Math.floor(this.getAlivePlayers().length / 2) + 1;
+    }
+  }
+
+  /**
+   * Count the votes: a single leader meeting the threshold is eliminated,
+   * players tied for the lead go to a runoff. Skip votes count toward the
+   * votes cast, and skip leading (or tying for the lead) eliminates no one.
+   */
+  tallyVotes(): VoteOutcome {
+    const results = this.getVoteResults();
+    if (results.length === 0) {
+      return { type: "no-votes" };
+    }
+
+    const top = results[0];
+    const leaders = results.filter((r) => r.votes === top.votes);
+    if (leaders.some((r) => r.target === SKIP_VOTE)) {
+      return { type: "skip", votes: top.votes };
+    }
+    if (leaders.length > 1) {
+      return { type: "tie", candidates: leaders.map((r) => r.target), votes: top.votes };
+    }
+
+    const needed = this.getVoteThreshold();
+    if (top.votes < needed) {
+      return { type: "no-majority", top, needed };
+    }
+    return { type: "eliminate", target: top.target, votes: top.votes };
+  }
+
+  /**
+   * Nominate a player for trial (trial mode, discussion phase).
+   * Each player has one nomination, which they can move; the first player to
+   * reach NOMINATIONS_FOR_TRIAL goes on trial.
+   */
+  nominate(
+    nominatorInboxId: string,
+    targetUsername: string
+  ): { success: boolean; message: string; onTrial?: Player } {
+    if (this.game.votingMode !== VotingMode.TRIAL) {
+      return { success: false, message: "This game doesn't use nominations. Vote with the buttons instead." };
+    }
+
+    const nominator = this.game.players.get(nominatorInboxId);
+    if (!nominator || !nominator.isAlive) {
+      return { success: false, message: "You are not part of an active game or have been eliminated." };
+    }
+
+    if (!isDiscussionPhase(this.game)) {
+      return { success: false, message: "Nominations are only open during the discussion phase." };
+    }
+
+    if (this.game.trialInboxId) {
+      return { success: false, message: "Someone is already going on trial this round." };
+    }
+
+    const target = this.getPlayerByUsername(targetUsername);
+    if (!target || !target.isAlive) {
+      return { success: false, message: `Player "${targetUsername}" not found or already eliminated.` };
+    }
+
+    if (target.inboxId === nominatorInboxId) {
+      return { success: false, message: "You cannot nominate yourself." };
+    }
+
+    this.game.nominations.set(nominatorInboxId, target.inboxId);
+    const count = this.getNominationCount(target.inboxId);
+    const needed = this.getNominationsNeeded();
+
+    if (count >= needed) {
+      this.game.trialInboxId = target.inboxId;
+      this.saveState();
+      return { success: true, message: `${target.username} has been put on trial.`, onTrial: target };
+    }
+
+    this.saveState();
+    return {
+      success: true,
+      message: `${nominator.username} nominated ${target.username} (${count}/${needed}).`,
+    };
+  }
+
+  getNominationCount(inboxId: string): number {
+    let count = 0;
+    for (const [nominatorInboxId, nomineeInboxId] of this.game.nominations.entries()) {
+      if (nomineeInboxId === inboxId && this.game.players.get(nominatorInboxId)?.isAlive) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Small lobbies can't always reach the configured number of nominations
+  getNominationsNeeded(): number {
+    return Math.max(1, Math.min(NOMINATIONS_FOR_TRIAL, this.getAlivePlayers().length - 1));
+  }
+
+  /**
+   * Everyone alive except the defendant votes on the verdict
+   */
+  getVerdictVoters(): Player[] {
+    return this.getAlivePlayers().filter((p) => p.inboxId !== this.game.trialInboxId);
+  }
+
+  castVerdict(
+    voterInboxId: string,
+    verdict: Verdict
+  ): { success: boolean; message: string; isNewVote?: boolean } {
+    if (!isVerdictPhase(this.game)) {
+      return { success: false, message: "There is no trial to vote on right now." };
+    }
+
+    const voter = this.game.players.get(voterInboxId);
+    if (!voter || !voter.isAlive) {
+      return { success: false, message: "You are not part of an active game or have been eliminated." };
+    }
+
+    if (voterInboxId === this.game.trialInboxId) {
+      return { success: false, message: "You cannot vote on your own trial." };
+    }
+
+    const isNewVote = !this.game.verdicts.has(voterInboxId);
+    this.game.verdicts.set(voterInboxId, verdict);
+    this.saveState();
+    return { success: true, message: `You voted ${verdict}.`, isNewVote };
+  }
+
+  getVerdictTotals(): Record<Verdict, number> {
+    const totals = { [Verdict.GUILTY]: 0, [Verdict.INNOCENT]: 0 };
+    for (const voter of this.getVerdictVoters()) {
+      const verdict = this.game.verdicts.get(voter.inboxId);
+      if (verdict) {
+        totals[verdict]++;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Eliminate a player by vote
+   */
   async eliminatePlayer(inboxId: string): Promise<void> {
     const player = this.game.players.get(inboxId);
     if (!player) {
@@ -539,87 +1334,83 @@ export class GameManager {
 
     player.isAlive = false;
     this.game.eliminatedPlayers.add(inboxId);
+    this.removeFromTaskGoal(player);
+
+    // Getting voted out is exactly what the Jester wants
+    if (player.role === Role.JESTER) {
+      this.game.jesterWinnerInboxId = inboxId;
+    }
+    this.saveState();
   }
 
-  checkWinCondition(): { gameEnded: boolean; winner: "CREW" | "IMPOSTOR" | null } {
-    const impostor = this.game.players.get(this.game.impostorInboxId || "");
-    
-    if (!impostor || !impostor.isAlive) {
-      // Impostor eliminated - Crew wins
-      return { gameEnded: true, winner: "CREW" };
+  checkWinCondition(): { gameEnded: boolean; winner: Faction | null } {
+    if (this.game.jesterWinnerInboxId) {
+      // Jester was voted out - Jester wins alone
+      return { gameEnded: true, winner: Faction.JESTER };
+    }
+
+    const aliveMafia = this.getAliveMafia().length;
+
+    if (aliveMafia === 0) {
+      // Whole mafia team eliminated - Town wins
+      return { gameEnded: true, winner: Faction.TOWN };
     }
 
-    if (this.game.round === MAX_ROUNDS) {
-      // Check if we just finished round 3 voting
-      const isAfterRound3Voting =
-        this.game.state === GameState.ROUND_3_VOTING ||
+    if (this.hasTownCompletedTasks()) {
+      // Town finished enough of its tasks - Town wins
+      return { gameEnded: true, winner: Faction.TOWN };
+    }
+
+    if (aliveMafia >= this.getAliveTown().length) {
+      // Parity - mafia equals or outnumbers everyone else
+      return { gameEnded: true, winner: Faction.MAFIA };
+    }
+
+    if (isFinalRound(this.game)) {
+      // Check if we just finished the final round's voting
+      const isAfterFinalVoting =
+        isVotingPhase(this.game) ||
+        isVerdictPhase(this.game) ||
         this.game.state === GameState.GAME_END;
 
-      if (isAfterRound3Voting && impostor.isAlive) {
-        // Impostor survived all 3 rounds - Impostor wins
-        return { gameEnded: true, winner: "IMPOSTOR" };
+      if (isAfterFinalVoting) {
+        // Mafia survived all rounds - Mafia wins
+        return { gameEnded: true, winner: Faction.MAFIA };
       }
     }
 
     return { gameEnded: false, winner: null };
   }
 
+  /**
+   * Move to the next phase in the phase graph (starting the next round or
+   * ending the game when the round is over)
+   */
   async advancePhase(): Promise<void> {
-    const state = this.game.state;
-
-    // Task & Kill phases (combined) -> Discussion phases
-    // Skip the separate KILL phase since it's now combined with TASKS
-    if (state === GameState.ROUND_1_TASKS) {
-      this.game.state = GameState.ROUND_1_DISCUSSION;
-    } else if (state === GameState.ROUND_2_TASKS) {
-      this.game.state = GameState.ROUND_2_DISCUSSION;
-    } else if (state === GameState.ROUND_3_TASKS) {
-      this.game.state = GameState.ROUND_3_DISCUSSION;
-    }
-    // Legacy: Kill phases -> Discussion phases (for backwards compatibility)
-    else if (state === GameState.ROUND_1_KILL) {
-      this.game.state = GameState.ROUND_1_DISCUSSION;
-    } else if (state === GameState.ROUND_2_KILL) {
-      this.game.state = GameState.ROUND_2_DISCUSSION;
-    } else if (state === GameState.ROUND_3_KILL) {
-      this.game.state = GameState.ROUND_3_DISCUSSION;
-    }
-    // Discussion phases -> Voting phases
-    else if (state === GameState.ROUND_1_DISCUSSION) {
-      this.game.state = GameState.ROUND_1_VOTING;
-    } else if (state === GameState.ROUND_2_DISCUSSION) {
-      this.game.state = GameState.ROUND_2_VOTING;
-    } else if (state === GameState.ROUND_3_DISCUSSION) {
-      this.game.state = GameState.ROUND_3_VOTING;
-    }
-    // Voting phases -> Next round or game end
-    else if (state === GameState.ROUND_1_VOTING) {
-      await this.startRound(2);
-    } else if (state === GameState.ROUND_2_VOTING) {
-      await this.startRound(3);
-    } else if (state === GameState.ROUND_3_VOTING) {
+    if (this.game.state !== GameState.IN_ROUND) {
+      return;
+    }
+
+    const next = getNextPhase(this.game);
+    if (!next) {
       this.game.state = GameState.GAME_END;
+      this.game.phase = null;
+    } else if (next.round !== this.game.round) {
+      await this.startRound(next.round);
+    } else {
+      this.game.phase = next.phase;
     }
+
+    this.saveState();
   }
 
   async cleanup(): Promise<void> {
-    this.game = {
-      state: GameState.IDLE,
-      lobbyGroupId: null,
-      originalGroupId: null,
-      players: new Map(),
-      round: 0,
-      startTime: null,
-      joinDeadline: null,
-      currentPhaseDeadline: null,
-      impostorInboxId: null,
-      eliminatedPlayers: new Set(),
-      killCooldown: KILL_COOLDOWN_MS,
-      killSuccessChance: KILL_SUCCESS_CHANCE,
-      maxKillAttempts: MAX_KILL_ATTEMPTS,
-      taskAssignments: new Map(),
-      currentTaskIndex: new Map(),
-    };
+    await this.teardownMafiaGroup();
+
+    if (this.store && this.game.originalGroupId) {
+      this.store.delete(this.game.originalGroupId);
+    }
+    this.game = createIdleGame();
   }
 
   getPlayerByUsername(username: string): Player | undefined {
@@ -0,0 +1,119 @@
+import type { Agent } from "@xmtp/agent-sdk";
+import { GameManager } from "./gameManager.js";
+import { GameState } from "./types.js";
+import type { GameStore } from "./storage/gameStore.js";
+
+/**
+ * Session registry for concurrent games.
+ * Each originating group hosts at most one game; sessions are keyed by the
+ * original group ID and can also be looked up by their lobby group ID.
+ */
+export class GameRegistry {
+  private agent: Agent;
+  private store: GameStore | null;
+  private sessions = new Map<string, GameManager>();
+
+  constructor(agent: Agent, store: GameStore | null = null) {
+    this.agent = agent;
+    this.store = store;
+  }
+
+  /**
+   * Reload persisted games (called once at boot)
+   */
+  restore(): GameManager[] {
+    if (!this.store) {
+      return [];
+    }
+
+    const restored: GameManager[] = [];
+    for (const { sessionId, game } of this.store.loadAll()) {
+      const gameManager = new GameManager(this.agent, this.store);
+      gameManager.restore(game);
+      this.sessions.set(sessionId, gameManager);
+      restored.push(gameManager);
+    }
+    return restored;
+  }
+
+  /**
+   * Get the session for a group, creating an idle one if none exists
+   */
+  getOrCreate(originalGroupId: string): GameManager {
+    this.prune();
+
+    let gameManager = this.sessions.get(originalGroupId);
+    if (!gameManager) {
+      gameManager = new GameManager(this.agent, this.store);
+      this.sessions.set(originalGroupId, gameManager);
+    }
+    return gameManager;
+  }
+
+  /**
+   * Find the active session hosted in (or originating from) a conversation
+   */
+  findByConversationId(conversationId: string): GameManager | undefined {
+    for (const [originalGroupId, gameManager] of this.sessions.entries()) {
+      if (gameManager.getState() === GameState.IDLE) {
+        continue;
+      }
+
+      const game = gameManager.getGame();
+      if (
+        originalGroupId === conversationId ||
+        game.lobbyGroupId === conversationId ||
+        game.mafiaGroupId === conversationId
+      ) {
+        return gameManager;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the active session a player has joined (used to route DMs)
+   */
+  findByPlayer(inboxId: string): GameManager | undefined {
+    for (const gameManager of this.sessions.values()) {
+      if (
+        gameManager.getState() !== GameState.IDLE &&
+        gameManager.getPlayer(inboxId)
+      ) {
+        return gameManager;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the session a message belongs to.
+   * Group messages are routed by conversation ID, DMs by the sender's game.
+   */
+  resolve(ctx: any): GameManager | undefined {
+    const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+    if (isDM) {
+      return this.findByPlayer(ctx.message.senderInboxId);
+    }
+
+    const conversationId = ctx.conversation?.id;
+    return conversationId ? this.findByConversationId(conversationId) : undefined;
+  }
+
+  /**
+   * Drop idle sessions so finished games don't accumulate
+   */
+  prune(): void {
+    for (const [originalGroupId, gameManager] of this.sessions.entries()) {
+      if (gameManager.getState() === GameState.IDLE) {
+        this.sessions.delete(originalGroupId);
+      }
+    }
+  }
+
+  getActiveSessions(): GameManager[] {
+    return Array.from(this.sessions.values()).filter(
+      (gameManager) => gameManager.getState() !== GameState.IDLE
+    );
+  }
+}
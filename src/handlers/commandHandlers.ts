@@ -1,14 +1,33 @@
 import type { Agent } from "@xmtp/agent-sdk";
-import { GameState } from "../types.js";
-import type { GameManager } from "../gameManager.js";
+import { GameState, SabotageType, SKIP_VOTE, Verdict } from "../types.js";
+import type { GameRegistry } from "../gameRegistry.js";
 import {
   getUsername,
+  parseStartOptions,
   rejectCommandInDM,
 } from "../utils/helpers.js";
-import { requireLobbyGroup } from "../utils/lobby.js";
+import {
+  requireLobbyGroup,
+  isCommandInMafiaGroup,
+  isCommandInLobbyGroup,
+  sendVoteConfirmation,
+} from "../utils/lobby.js";
 import { sendJoinMessageToOriginalGroup } from "../utils/messages.js";
+import { sendSabotageButtons } from "../utils/sabotageButtons.js";
+import { formatHelp, formatRules, type HelpLocation } from "../game/help.js";
 import { setPhaseTimer, clearPhaseTimer } from "../utils/timers.js";
-import { startGame } from "../game/gameFlow.js";
+import {
+  startGame,
+  endTaskAndKillPhaseEarly,
+  checkTaskAndKillPhaseDone,
+  handleTaskCompleted,
+  handleVoteCast,
+  handleNomination,
+  handleVerdictCast,
+  applySabotage,
+  formatTaskList,
+  formatGameStatus,
+} from "../game/gameFlow.js";
 import {
   MAX_PLAYERS,
   JOIN_WINDOW_DURATION_MS,
@@ -18,7 +37,7 @@ import {
 import { ContentTypeActions, type ActionsContent } from "../xmtp-inline-actions/types/index.js";
 
 // Handle /start command
-export function setupStartHandler(agent: Agent, gameManager: GameManager) {
+export function setupStartHandler(agent: Agent, games: GameRegistry) {
   return async (ctx: any) => {
     const parsed = ctx.parsedCommand;
     console.log("parsed", parsed);
@@ -40,8 +59,18 @@ export function setupStartHandler(agent: Agent, gameManager: GameManager) {
         return;
       }
 
-      // Create lobby with original group ID
-      const lobbyId = await gameManager.createLobby(originalGroupId);
+      // A lobby group can't host a game of its own, and a player can only be in one game
+      if (games.findByConversationId(originalGroupId)) {
+        throw new Error("Game already in progress");
+      }
+      if (games.findByPlayer(ctx.message.senderInboxId)) {
+        throw new Error("You are already playing in another game");
+      }
+
+      // Create lobby with original group ID and any options (e.g. mafia=2)
+      const options = parseStartOptions(parsed.args);
+      const gameManager = games.getOrCreate(originalGroupId);
+      const lobbyId = await gameManager.createLobby(originalGroupId, options);
 
       // Add the player who started the game
       const addResult = await gameManager.addPlayer(
@@ -76,22 +105,11 @@ export function setupStartHandler(agent: Agent, gameManager: GameManager) {
           agent,
           originalGroup,
           lobbyGroup,
-          `🚀 MAFIA Game Lobby Created!\n\nUp to ${MAX_PLAYERS} players may join within ${JOIN_WINDOW_DURATION_SECONDS / 60} minutes.`
+          `🚀 MAFIA Game Lobby Created!\n\nUp to ${MAX_PLAYERS} players may join within ${JOIN_WINDOW_DURATION_SECONDS / 60} minutes.\n🎭 Role preset: ${gameManager.getGame().preset}`
         );
 
         // Set timer to start game after join window
-        setPhaseTimer("joinWindow", JOIN_WINDOW_DURATION_MS, async () => {
-          if (gameManager.getState() === GameState.WAITING_FOR_PLAYERS) {
-            if (gameManager.canStartGame()) {
-              await startGame(agent, gameManager);
-            } else {
-              await lobbyGroup.send("Not enough players joined. Game cancelled.");
-              const { clearAllTimers } = await import("../utils/timers.js");
-              clearAllTimers(gameManager);
-              await gameManager.cleanup();
-            }
-          }
-        }, gameManager);
+        setPhaseTimer("joinWindow", JOIN_WINDOW_DURATION_MS, "joinWindowEnd", gameManager);
       }
     } catch (error: any) {
       await ctx.sendText(`❌ Error creating lobby: ${error.message}`);
@@ -100,7 +118,7 @@ export function setupStartHandler(agent: Agent, gameManager: GameManager) {
 }
 
 // Handle /join command (only works in lobby group)
-export function setupJoinHandler(agent: Agent, gameManager: GameManager) {
+export function setupJoinHandler(agent: Agent, games: GameRegistry) {
   return async (ctx: any) => {
     const parsed = ctx.parsedCommand;
     if (!parsed || parsed.command !== "join") {
@@ -112,11 +130,25 @@ export function setupJoinHandler(agent: Agent, gameManager: GameManager) {
       return;
     }
 
+    const gameManager = games.resolve(ctx);
+    if (!gameManager) {
+      await ctx.sendText(
+        "❌ No game lobby found here. Use @mafia /start in a group to create one."
+      );
+      return;
+    }
+
     // Only allow /join in the lobby group
     if (!(await requireLobbyGroup(ctx, "join", gameManager))) {
       return;
     }
 
+    const otherGame = games.findByPlayer(ctx.message.senderInboxId);
+    if (otherGame && otherGame !== gameManager) {
+      await ctx.sendText("❌ You are already playing in another game.");
+      return;
+    }
+
     try {
       const username = await getUsername(ctx);
       const result = await gameManager.addPlayer(
@@ -204,34 +236,34 @@ export function setupJoinHandler(agent: Agent, gameManager: GameManager) {
   };
 }
 
-// Handle /task command
-// Note: This command requires agent mention (handled by middleware)
-export function setupTaskHandler(gameManager: GameManager) {
+// Handle task command (DM only, no mention needed)
+export function setupTaskHandler(agent: Agent, games: GameRegistry) {
   return async (ctx: any) => {
     const parsed = ctx.parsedCommand;
     if (!parsed || parsed.command !== "task") {
       return;
     }
 
-    // Ensure this is in a group (not DM) - tasks should be submitted in the lobby group
+    // Answers stay private - the lobby only sees the completion notice
     const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
-    if (isDM) {
+    if (!isDM) {
       await ctx.sendText(
-        "❌ Task submissions should be done in the game lobby group, not in private messages.\n\nUse: @mafia /task <answer> in the lobby group."
+        "🔒 Task answers are private. DM me instead: task <answer>"
       );
       return;
     }
 
     try {
       if (!parsed.args || parsed.args.length === 0) {
-        await ctx.sendText("Usage: @mafia /task <value>");
+        await ctx.sendText("Usage: task <value>");
         return;
       }
 
       const answer = parsed.args.join(" ").trim();
-      const player = gameManager.getPlayer(ctx.message.senderInboxId);
+      const gameManager = games.resolve(ctx);
+      const player = gameManager?.getPlayer(ctx.message.senderInboxId);
 
-      if (!player || !player.isAlive) {
+      if (!gameManager || !player || !player.isAlive) {
         await ctx.sendText(
           "You are not part of an active game or have been eliminated."
         );
@@ -240,15 +272,16 @@ export function setupTaskHandler(gameManager: GameManager) {
 
       // All players (including mafia) can submit tasks
       // Mafia needs to fake complete tasks by guessing the correct answer
-      const completed = await gameManager.completeTask(
+      const result = await gameManager.completeTask(
         ctx.message.senderInboxId,
         answer
       );
 
-      if (completed) {
-        await ctx.sendText("✅ Task completed!");
+      if (result.success) {
+        await ctx.sendText(`✅ ${result.message}`);
+        await handleTaskCompleted(agent, gameManager, ctx.message.senderInboxId, result.taskIndex!);
       } else {
-        await ctx.sendText("❌ Task answer incorrect. Try again.");
+        await ctx.sendText(`❌ ${result.message}`);
       }
     } catch (error: any) {
       await ctx.sendText(`Error: ${error.message}`);
@@ -256,31 +289,142 @@ export function setupTaskHandler(gameManager: GameManager) {
   };
 }
 
+// Handle /tasks command (the list is only ever sent by DM so answers don't leak)
+export function setupTasksHandler(agent: Agent, games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "tasks") {
+      return;
+    }
+
+    try {
+      const senderInboxId = ctx.message.senderInboxId;
+      const gameManager = games.resolve(ctx);
+      const player = gameManager?.getPlayer(senderInboxId);
+
+      if (!gameManager || !player) {
+        await ctx.sendText("❌ You are not part of an active game.");
+        return;
+      }
+
+      if (!player.isAlive) {
+        await ctx.sendText("❌ You have been eliminated and no longer have tasks.");
+        return;
+      }
+
+      const taskList = formatTaskList(gameManager, senderInboxId);
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      if (isDM) {
+        await ctx.sendText(taskList);
+        return;
+      }
+
+      const dm = await agent.client.conversations.newDm(senderInboxId);
+      await dm.send(taskList);
+      await ctx.sendText(`📬 ${player.username}, I sent you your task list by DM.`);
+    } catch (error: any) {
+      console.error("Error sending task list:", error);
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle /status command (lobby, original group, or a player's DM)
+export function setupStatusHandler(games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "status") {
+      return;
+    }
+
+    try {
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ There is no active game here. Start one with @mafia /start");
+        return;
+      }
+
+      await ctx.sendText(formatGameStatus(gameManager));
+    } catch (error: any) {
+      console.error("Error sending game status:", error);
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle /help command (lists the commands that work where and as whom it was sent)
+export function setupHelpHandler(games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "help") {
+      return;
+    }
+
+    try {
+      const gameManager = games.resolve(ctx);
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      let location: HelpLocation = "group";
+      if (isDM) {
+        location = "dm";
+      } else if (gameManager && isCommandInMafiaGroup(ctx, gameManager)) {
+        location = "mafia";
+      } else if (gameManager && isCommandInLobbyGroup(ctx, gameManager)) {
+        location = "lobby";
+      }
+
+      await ctx.sendText(formatHelp(gameManager, ctx.message.senderInboxId, location));
+    } catch (error: any) {
+      console.error("Error sending help:", error);
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle /rules command (the active game's settings, or the defaults)
+export function setupRulesHandler(games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "rules") {
+      return;
+    }
+
+    try {
+      await ctx.sendText(formatRules(games.resolve(ctx)));
+    } catch (error: any) {
+      console.error("Error sending rules:", error);
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
 // Handle kill command (DM only)
-export function setupKillHandler(agent: Agent, gameManager: GameManager) {
+export function setupKillHandler(agent: Agent, games: GameRegistry) {
   return async (ctx: any) => {
     const parsed = ctx.parsedCommand;
     if (!parsed || parsed.command !== "kill") {
       return;
     }
 
-    // Only allow kills in DMs
+    // Only allow kills in DMs or the private mafia team group
     const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
-    if (!isDM) {
+    const gameManager = games.resolve(ctx);
+    if (!isDM && !(gameManager && isCommandInMafiaGroup(ctx, gameManager))) {
       await ctx.sendText(
         "Kill commands can only be used in private messages (DMs)."
       );
       return;
     }
 
+    if (!gameManager) {
+      await ctx.sendText("❌ You are not part of an active game.");
+      return;
+    }
+
     try {
       // If no arguments, send kill buttons with all available targets
       if (!parsed.args || parsed.args.length === 0) {
-        const alivePlayers = gameManager.getAlivePlayers();
-        const mafiaInboxId = gameManager.getGame().impostorInboxId;
-        const killablePlayers = alivePlayers.filter(
-          (p) => p.inboxId !== mafiaInboxId
-        );
+        // Mafia can't target their own team
+        const killablePlayers = gameManager.getAliveTown();
 
         if (killablePlayers.length === 0) {
           await ctx.sendText("❌ No players left to kill.");
@@ -370,23 +514,12 @@ export function setupKillHandler(agent: Agent, gameManager: GameManager) {
               return;
             }
 
-            // Clear the combined phase timer since we're advancing early
-            const { clearPhaseTimer } = await import("../utils/timers.js");
-            const currentRound = gameManager.getGame().round;
-            clearPhaseTimer(`taskAndKillPhase-${currentRound}`, gameManager);
-
             // Advance to discussion phase after a short delay
-            setTimeout(async () => {
-              await gameManager.advancePhase();
-              const { startDiscussionPhase } = await import("../game/gameFlow.js");
-              await startDiscussionPhase(
-                gameManager.getGame().round,
-                agent,
-                gameManager
-              );
-            }, 2000);
+            endTaskAndKillPhaseEarly(gameManager.getGame().round, gameManager);
           }
         }
+      } else {
+        await checkTaskAndKillPhaseDone(agent, gameManager);
       }
     } catch (error: any) {
       await ctx.sendText(`Error: ${error.message}`);
@@ -394,8 +527,131 @@ export function setupKillHandler(agent: Agent, gameManager: GameManager) {
   };
 }
 
+// Handle sabotage command (DM or mafia team group, Mafia only)
+export function setupSabotageHandler(agent: Agent, games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "sabotage") {
+      return;
+    }
+
+    const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+    const gameManager = games.resolve(ctx);
+    if (!isDM && !(gameManager && isCommandInMafiaGroup(ctx, gameManager))) {
+      await ctx.sendText("Sabotage commands can only be used in private messages (DMs).");
+      return;
+    }
+
+    if (!gameManager) {
+      await ctx.sendText("❌ You are not part of an active game.");
+      return;
+    }
+
+    try {
+      // Without a sabotage, show the options as buttons
+      if (!parsed.args || parsed.args.length === 0) {
+        await sendSabotageButtons(agent, ctx.conversation, gameManager, gameManager.getGame().round);
+        return;
+      }
+
+      const type = parsed.args[0].toLowerCase() as SabotageType;
+      if (!Object.values(SabotageType).includes(type)) {
+        await ctx.sendText(`Usage: sabotage ${Object.values(SabotageType).join("|")}`);
+        return;
+      }
+
+      const result = gameManager.sabotage(ctx.message.senderInboxId, type);
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
+
+      if (result.success) {
+        await applySabotage(agent, gameManager, type);
+      }
+    } catch (error: any) {
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle protect command (DM only, Doctor only)
+export function setupProtectHandler(games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "protect") {
+      return;
+    }
+
+    const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+    if (!isDM) {
+      await ctx.sendText(
+        "Protect commands can only be used in private messages (DMs)."
+      );
+      return;
+    }
+
+    try {
+      if (!parsed.args || parsed.args.length === 0) {
+        await ctx.sendText("Usage: protect <username>");
+        return;
+      }
+
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ You are not part of an active game.");
+        return;
+      }
+
+      const result = gameManager.protectPlayer(
+        ctx.message.senderInboxId,
+        parsed.args.join(" ")
+      );
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
+    } catch (error: any) {
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle investigate command (DM only, Detective only)
+export function setupInvestigateHandler(games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "investigate") {
+      return;
+    }
+
+    const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+    if (!isDM) {
+      await ctx.sendText(
+        "Investigate commands can only be used in private messages (DMs)."
+      );
+      return;
+    }
+
+    try {
+      if (!parsed.args || parsed.args.length === 0) {
+        await ctx.sendText("Usage: investigate <username>");
+        return;
+      }
+
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ You are not part of an active game.");
+        return;
+      }
+
+      const result = gameManager.investigatePlayer(
+        ctx.message.senderInboxId,
+        parsed.args.join(" ")
+      );
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
+    } catch (error: any) {
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
 // Handle vote command
-export function setupVoteHandler(gameManager: GameManager) {
+export function setupVoteHandler(agent: Agent, games: GameRegistry) {
   return async (ctx: any) => {
     const parsed = ctx.parsedCommand;
     if (!parsed || parsed.command !== "vote") {
@@ -404,7 +660,20 @@ export function setupVoteHandler(gameManager: GameManager) {
 
     try {
       if (!parsed.args || parsed.args.length === 0) {
-        await ctx.sendText("Usage: @mafia vote <username>");
+        await ctx.sendText("Usage: @mafia vote <username> or @mafia vote skip");
+        return;
+      }
+
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ There is no active game in this conversation.");
+        return;
+      }
+
+      // A vote typed in a group is visible to everyone there
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      if (gameManager.getGame().anonymousVoting && !isDM) {
+        await ctx.sendText("🔒 Votes are anonymous. DM me instead: vote <username> or vote skip");
         return;
       }
 
@@ -419,10 +688,96 @@ export function setupVoteHandler(gameManager: GameManager) {
         return;
       }
 
-      await ctx.sendText(`✅ Voted for ${targetUsername}`);
+      await sendVoteConfirmation(
+        ctx,
+        agent,
+        gameManager,
+        targetUsername.toLowerCase() === SKIP_VOTE ? "✅ Voted to skip" : `✅ Voted for ${targetUsername}`
+      );
+      await handleVoteCast(agent, gameManager, true);
+    } catch (error: any) {
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
+
+// Handle nominate command (trial mode, lobby group only)
+export function setupNominateHandler(agent: Agent, games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (!parsed || parsed.command !== "nominate") {
+      return;
+    }
+
+    try {
+      if (!parsed.args || parsed.args.length === 0) {
+        await ctx.sendText("Usage: @mafia nominate <username>");
+        return;
+      }
+
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ There is no active game in this conversation.");
+        return;
+      }
+
+      if (!(await requireLobbyGroup(ctx, "nominate", gameManager))) {
+        return;
+      }
+
+      const result = gameManager.nominate(
+        ctx.message.senderInboxId,
+        parsed.args.join(" ")
+      );
+      if (!result.success) {
+        await ctx.sendText(`❌ ${result.message}`);
+        return;
+      }
+
+      if (result.onTrial) {
+        await handleNomination(agent, gameManager, result.onTrial);
+      } else {
+        await ctx.sendText(`✅ ${result.message}`);
+      }
     } catch (error: any) {
       await ctx.sendText(`Error: ${error.message}`);
     }
   };
 }
 
+// Handle guilty/innocent commands (trial mode, lobby group only)
+export function setupVerdictHandler(agent: Agent, games: GameRegistry) {
+  return async (ctx: any) => {
+    const parsed = ctx.parsedCommand;
+    if (
+      !parsed ||
+      (parsed.command !== Verdict.GUILTY && parsed.command !== Verdict.INNOCENT)
+    ) {
+      return;
+    }
+
+    try {
+      const gameManager = games.resolve(ctx);
+      if (!gameManager) {
+        await ctx.sendText("❌ There is no active game in this conversation.");
+        return;
+      }
+
+      if (!(await requireLobbyGroup(ctx, parsed.command, gameManager))) {
+        return;
+      }
+
+      const result = gameManager.castVerdict(
+        ctx.message.senderInboxId,
+        parsed.command as Verdict
+      );
+      await ctx.sendText(result.success ? `✅ ${result.message}` : `❌ ${result.message}`);
+
+      if (result.success) {
+        await handleVerdictCast(agent, gameManager, !!result.isNewVote);
+      }
+    } catch (error: any) {
+      await ctx.sendText(`Error: ${error.message}`);
+    }
+  };
+}
@@ -1,11 +1,20 @@
 import type { Agent } from "@xmtp/agent-sdk";
 import type { IntentContent } from "../xmtp-inline-actions/types/index.js";
-import { GameState } from "../types.js";
-import type { GameManager } from "../gameManager.js";
+import { GameState, SabotageType, SKIP_VOTE, Verdict } from "../types.js";
+import type { GameRegistry } from "../gameRegistry.js";
 import { getUsername } from "../utils/helpers.js";
 import { sendJoinMessageToOriginalGroup } from "../utils/messages.js";
 import { clearPhaseTimer, clearAllTimers } from "../utils/timers.js";
-import { startGame } from "../game/gameFlow.js";
+import {
+  startGame,
+  endTaskAndKillPhaseEarly,
+  checkTaskAndKillPhaseDone,
+  handleVoteCast,
+  handleVerdictCast,
+  applySabotage,
+} from "../game/gameFlow.js";
+import { isVotingPhase } from "../game/phases.js";
+import { isCommandInMafiaGroup, sendVoteConfirmation } from "../utils/lobby.js";
 import { MAX_PLAYERS } from "../config/gameConfig.js";
 
 // Handle intent messages (inline action button clicks)
@@ -14,7 +23,7 @@ export async function handleIntentMessage(
   ctx: any,
   intentContent: IntentContent,
   agent: Agent,
-  gameManager: GameManager
+  games: GameRegistry
 ) {
   try {
     const actionId = intentContent.actionId;
@@ -25,9 +34,22 @@ export async function handleIntentMessage(
       `🎯 Processing intent: ${actionId} from ${senderInboxId} in conversation ${currentConversationId}`
     );
 
+    // Route the click to the game hosted in this conversation (or the sender's game for DMs)
+    const gameManager = games.resolve(ctx);
+    if (!gameManager) {
+      await ctx.sendText("❌ This game is no longer active.");
+      return;
+    }
+
     if (actionId === "join-game") {
       // Handle join game button click
       // This can be clicked from the original group (where the button is shown)
+      const otherGame = games.findByPlayer(senderInboxId);
+      if (otherGame && otherGame !== gameManager) {
+        await ctx.sendText("❌ You are already playing in another game.");
+        return;
+      }
+
       const username = await getUsername(ctx);
       const result = await gameManager.addPlayer(senderInboxId, username);
 
@@ -140,9 +162,9 @@ export async function handleIntentMessage(
         await ctx.sendText("❌ Cannot cancel game. Game has already started.");
       }
     } else if (actionId.startsWith("kill-")) {
-      // Handle kill button click (DM only, Mafia only)
+      // Handle kill button click (DM or mafia team group only, Mafia only)
       const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
-      if (!isDM) {
+      if (!isDM && !isCommandInMafiaGroup(ctx, gameManager)) {
         await ctx.sendText("❌ Kill commands can only be used in private messages (DMs).");
         return;
       }
@@ -180,24 +202,55 @@ export async function handleIntentMessage(
               return;
             }
 
-            // Clear the kill phase timer since we're advancing early
-            const { clearPhaseTimer } = await import("../utils/timers.js");
-            const currentRound = gameManager.getGame().round;
-            clearPhaseTimer(`killPhase-${currentRound}`, gameManager);
-
             // Advance to discussion phase after a short delay
-            setTimeout(async () => {
-              await gameManager.advancePhase();
-              const { startDiscussionPhase } = await import("../game/gameFlow.js");
-              await startDiscussionPhase(
-                gameManager.getGame().round,
-                agent,
-                gameManager
-              );
-            }, 2000);
+            endTaskAndKillPhaseEarly(gameManager.getGame().round, gameManager);
           }
         }
+      } else {
+        await checkTaskAndKillPhaseDone(agent, gameManager);
+      }
+    } else if (actionId.startsWith("sabotage-")) {
+      // Handle sabotage button click (DM or mafia team group only, Mafia only)
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      if (!isDM && !isCommandInMafiaGroup(ctx, gameManager)) {
+        await ctx.sendText("❌ Sabotage can only be used in private messages (DMs).");
+        return;
+      }
+
+      const type = actionId.replace("sabotage-", "") as SabotageType;
+      if (!Object.values(SabotageType).includes(type)) {
+        await ctx.sendText(`❌ Unknown action: ${actionId}`);
+        return;
       }
+
+      const result = gameManager.sabotage(senderInboxId, type);
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
+
+      if (result.success) {
+        await applySabotage(agent, gameManager, type);
+      }
+    } else if (actionId.startsWith("protect-")) {
+      // Handle protect button click (DM only, Doctor only)
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      if (!isDM) {
+        await ctx.sendText("❌ Protect commands can only be used in private messages (DMs).");
+        return;
+      }
+
+      const targetInboxId = actionId.replace("protect-", "");
+      const result = gameManager.protectPlayer(senderInboxId, targetInboxId);
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
+    } else if (actionId.startsWith("investigate-")) {
+      // Handle investigate button click (DM only, Detective only)
+      const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+      if (!isDM) {
+        await ctx.sendText("❌ Investigations can only be done in private messages (DMs).");
+        return;
+      }
+
+      const targetInboxId = actionId.replace("investigate-", "");
+      const result = gameManager.investigatePlayer(senderInboxId, targetInboxId);
+      await ctx.sendText(result.success ? result.message : `❌ ${result.message}`);
     } else if (actionId.startsWith("vote-")) {
       // Handle vote button click (Group only)
       const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
@@ -207,9 +260,10 @@ export async function handleIntentMessage(
       }
 
       const targetInboxId = actionId.replace("vote-", "");
+      const isSkip = targetInboxId === SKIP_VOTE;
       const targetPlayer = gameManager.getPlayer(targetInboxId);
       
-      if (!targetPlayer) {
+      if (!targetPlayer && !isSkip) {
         await ctx.sendText("❌ Target player not found.");
         return;
       }
@@ -221,25 +275,48 @@ export async function handleIntentMessage(
       }
 
       // Check if we're in a voting phase
-      const isVotingPhase =
-        gameManager.getState() === GameState.ROUND_1_VOTING ||
-        gameManager.getState() === GameState.ROUND_2_VOTING ||
-        gameManager.getState() === GameState.ROUND_3_VOTING;
-
-      if (!isVotingPhase) {
+      if (!isVotingPhase(gameManager.getGame())) {
         await ctx.sendText("❌ It's not the voting phase.");
         return;
       }
 
+      if (targetPlayer && !gameManager.isVoteCandidate(targetInboxId)) {
+        await ctx.sendText(`❌ ${targetPlayer.username} is not on the ballot.`);
+        return;
+      }
+
       // Cast vote
-      if (voter.voted) {
-        await ctx.sendText(`✅ You changed your vote to ${targetPlayer.username}.`);
+      let confirmation: string;
+      if (isSkip) {
+        confirmation = voter.voted ? "✅ You changed your vote to skip." : "✅ You voted to skip.";
+      } else if (voter.voted) {
+        confirmation = `✅ You changed your vote to ${targetPlayer!.username}.`;
+      } else {
+        confirmation = `✅ You voted to eliminate ${targetPlayer!.username}.`;
+      }
+      await sendVoteConfirmation(ctx, agent, gameManager, confirmation);
+
+      const isNewVote = !voter.voted;
+      gameManager.setVote(senderInboxId, targetInboxId);
+      await handleVoteCast(agent, gameManager, isNewVote);
+    } else if (actionId.startsWith("verdict-")) {
+      // Handle guilty/innocent button click (Group only)
+      const verdict = actionId.replace("verdict-", "") as Verdict;
+      if (verdict !== Verdict.GUILTY && verdict !== Verdict.INNOCENT) {
+        await ctx.sendText(`❌ Unknown action: ${actionId}`);
+        return;
+      }
+
+      const result = gameManager.castVerdict(senderInboxId, verdict);
+      if (result.success) {
+        await sendVoteConfirmation(ctx, agent, gameManager, `✅ ${result.message}`);
       } else {
-        await ctx.sendText(`✅ You voted to eliminate ${targetPlayer.username}.`);
+        await ctx.sendText(`❌ ${result.message}`);
       }
 
-      voter.voted = true;
-      voter.voteTarget = targetInboxId;
+      if (result.success) {
+        await handleVerdictCast(agent, gameManager, !!result.isNewVote);
+      }
     } else {
       await ctx.sendText(`❌ Unknown action: ${actionId}`);
     }
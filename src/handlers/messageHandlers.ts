@@ -40,7 +40,8 @@ export function setupIntroHandler(agent: Agent) {
         `• Manage game lobbies and player interactions\n` +
         `• Coordinate tasks, voting, and eliminations\n\n` +
         `🚀 Get Started:\n` +
-        `Type \`@mafia /start\` to create a new game lobby!\n\n` +
+        `Type \`@mafia /start\` to create a new game lobby!\n` +
+        `Type \`@mafia /help\` for the commands you can use, or \`@mafia /rules\` for the game settings.\n\n` +
         `🎲 Game Features:\n` +
         `• Up to ${MAX_PLAYERS} players per game\n` +
         `• Town members complete tasks\n` +
@@ -1,4 +1,7 @@
-import { GameManager } from "./gameManager.js";
+import { GameRegistry } from "./gameRegistry.js";
+import { GameStore } from "./storage/gameStore.js";
+import { registerGameTimers, resumeGame } from "./game/gameFlow.js";
+import { rearmTimers } from "./utils/timers.js";
 import { createAgent } from "./agent/setup.js";
 import { createCommandMiddleware } from "./middleware/commandMiddleware.js";
 import { setupIntroHandler } from "./handlers/messageHandlers.js";
@@ -6,36 +9,68 @@ import {
   setupStartHandler,
   setupJoinHandler,
   setupTaskHandler,
+  setupTasksHandler,
+  setupStatusHandler,
+  setupHelpHandler,
+  setupRulesHandler,
   setupKillHandler,
+  setupSabotageHandler,
   setupVoteHandler,
+  setupNominateHandler,
+  setupVerdictHandler,
+  setupProtectHandler,
+  setupInvestigateHandler,
 } from "./handlers/commandHandlers.js";
 
 process.loadEnvFile(".env");
 
-// Initialize agent and game manager
+// Initialize agent and game session registry (one game per group)
 const agent = await createAgent();
-const gameManager = new GameManager(agent);
+const games = new GameRegistry(agent, new GameStore());
+
+// Timer callbacks must be registered before persisted timers are re-armed
+registerGameTimers(agent);
+
+// Resume games that were in progress before the last restart
+const restoredGames = games.restore();
+console.log(`Restored ${restoredGames.length} game(s) from storage`);
 
 // Setup middleware
-const commandMiddleware = createCommandMiddleware(agent, gameManager);
+const commandMiddleware = createCommandMiddleware(agent, games);
 agent.use(commandMiddleware);
 
 // Setup message handlers
 agent.on("text", setupIntroHandler(agent));
 
 // Setup command handlers
-agent.on("text", setupStartHandler(agent, gameManager));
-agent.on("text", setupJoinHandler(agent, gameManager));
-agent.on("text", setupTaskHandler(gameManager));
-agent.on("text", setupKillHandler(agent, gameManager));
-agent.on("text", setupVoteHandler(gameManager));
+agent.on("text", setupStartHandler(agent, games));
+agent.on("text", setupJoinHandler(agent, games));
+agent.on("text", setupTaskHandler(agent, games));
+agent.on("text", setupTasksHandler(agent, games));
+agent.on("text", setupStatusHandler(games));
+agent.on("text", setupHelpHandler(games));
+agent.on("text", setupRulesHandler(games));
+agent.on("text", setupKillHandler(agent, games));
+agent.on("text", setupSabotageHandler(agent, games));
+agent.on("text", setupVoteHandler(agent, games));
+agent.on("text", setupProtectHandler(games));
+agent.on("text", setupInvestigateHandler(games));
+agent.on("text", setupNominateHandler(agent, games));
+agent.on("text", setupVerdictHandler(agent, games));
 
 // Start agent
-agent.on("start", () => {
+agent.on("start", async () => {
   console.log(`MAFIA Agent is running...`);
   console.log(`Address: ${agent.address}`);
   console.log(`Conversation Id: ${agent.client.inboxId}`);
   console.log(`Send @mafia /start to begin!`);
+
+  // Re-arm timers of restored games (overdue ones fire immediately, in order),
+  // then move on any game that was saved between two timer-driven steps
+  for (const gameManager of restoredGames) {
+    await rearmTimers(gameManager);
+    await resumeGame(agent, gameManager);
+  }
 });
 
 await agent.start();
@@ -1,13 +1,20 @@
 import { AgentMiddleware, filter } from "@xmtp/agent-sdk";
 import type { Agent } from "@xmtp/agent-sdk";
 import type { IntentContent } from "../xmtp-inline-actions/types/index.js";
-import { isMentioned, parseCommand, isAgentInGroup } from "../utils/helpers.js";
-import type { GameManager } from "../gameManager.js";
+import {
+  isMentioned,
+  parseCommand,
+  isAgentInGroup,
+  DM_COMMANDS,
+  MAFIA_GROUP_COMMANDS,
+} from "../utils/helpers.js";
+import type { GameRegistry } from "../gameRegistry.js";
 import { handleIntentMessage } from "../handlers/intentHandler.js";
+import { isCommandInLobbyGroup, isCommandInMafiaGroup } from "../utils/lobby.js";
 
 export function createCommandMiddleware(
   agent: Agent,
-  gameManager: GameManager
+  games: GameRegistry
 ): AgentMiddleware {
   return async (ctx, next) => {
     // Log all incoming messages
@@ -38,7 +45,7 @@ export function createCommandMiddleware(
           );
 
           // Handle intent messages (join button clicks, etc.)
-          await handleIntentMessage(ctx, intentContent, agent, gameManager);
+          await handleIntentMessage(ctx, intentContent, agent, games);
           console.log("=".repeat(60));
           return;
         }
@@ -54,7 +61,7 @@ export function createCommandMiddleware(
         console.log("   🎯 Detected intent message (fallback detection)");
         try {
           const intentContent = content as IntentContent;
-          await handleIntentMessage(ctx, intentContent, agent, gameManager);
+          await handleIntentMessage(ctx, intentContent, agent, games);
           console.log("=".repeat(60));
           return;
         } catch (error) {
@@ -77,8 +84,8 @@ export function createCommandMiddleware(
     const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
     console.log(`   Is DM: ${isDM}`);
 
-    // Parse command first to check if it's a kill command in DM
-    const parsed = parseCommand(content);
+    // Parse command first to check if it's a private action in DM
+    const parsed = parseCommand(content, isDM ? DM_COMMANDS : []);
     
     // For groups, verify agent is a member and require mention
     if (!isDM) {
@@ -100,18 +107,40 @@ export function createCommandMiddleware(
         return;
       }
 
+      // Kill and sabotage commands in the private mafia team group don't need a mention
+      const gameManager = games.findByConversationId(ctx.conversation.id);
+      const mafiaParsed =
+        gameManager && isCommandInMafiaGroup(ctx, gameManager)
+          ? parseCommand(content, MAFIA_GROUP_COMMANDS)
+          : null;
+      if (mafiaParsed && MAFIA_GROUP_COMMANDS.includes(mafiaParsed.command)) {
+        console.log(`   ✅ ${mafiaParsed.command} command in mafia group (no mention required)`);
+        console.log("=".repeat(60));
+        (ctx as any).parsedCommand = mafiaParsed;
+        await next();
+        return;
+      }
+
       // Require mention for group commands
       if (!isMentioned(content, agentAddress)) {
         console.log("   ⏭️  Skipped: No mention in group message");
         console.log("=".repeat(60));
         return;
       }
+
+      // A silenced discussion (mafia sabotage) takes no lobby commands until it lifts
+      if (gameManager && isCommandInLobbyGroup(ctx, gameManager) && gameManager.isDiscussionSilenced()) {
+        console.log("   ⏭️  Skipped: Lobby is silenced");
+        console.log("=".repeat(60));
+        await ctx.sendText("🤫 The discussion is silenced. I'll take commands again when it lifts.");
+        return;
+      }
     } else {
-      // In DM: allow kill commands without mention, but other commands still need parsing
-      // Kill commands are handled specially - they don't need mention in DM
-      if (parsed && parsed.command === "kill") {
-        // Allow kill command in DM without mention
-        console.log(`   ✅ Kill command in DM (no mention required)`);
+      // In DM: allow task/kill/sabotage/protect/investigate commands without mention, but other commands still need parsing
+      // Private actions are handled specially - they don't need mention in DM
+      if (parsed && DM_COMMANDS.includes(parsed.command)) {
+        // Allow night action command in DM without mention
+        console.log(`   ✅ ${parsed.command} command in DM (no mention required)`);
         console.log("=".repeat(60));
         (ctx as any).parsedCommand = parsed;
         await next();
@@ -0,0 +1,100 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import type { Game } from "../types.js";
+
+const getStorePath = (description = "games"): string => {
+  let volumePath = ".data/mafia";
+
+  if (!fs.existsSync(volumePath)) fs.mkdirSync(volumePath, { recursive: true });
+
+  return `${volumePath}/${description}.db3`;
+};
+
+/**
+ * Serialize game state to JSON, preserving Maps and Sets
+ */
+export function serializeGame(game: Game): string {
+  return JSON.stringify(game, (_key, value) => {
+    if (value instanceof Map) {
+      return { __type: "Map", entries: Array.from(value.entries()) };
+    }
+    if (value instanceof Set) {
+      return { __type: "Set", values: Array.from(value.values()) };
+    }
+    return value;
+  });
+}
+
+/**
+ * Rebuild game state from JSON produced by serializeGame
+ */
+export function deserializeGame(json: string): Game {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === "object") {
+      if (value.__type === "Map") {
+        return new Map(value.entries);
+      }
+      if (value.__type === "Set") {
+        return new Set(value.values);
+      }
+    }
+    return value;
+  }) as Game;
+}
+
+/**
+ * SQLite-backed store for game sessions, keyed by the original group ID
+ */
+export class GameStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = getStorePath()) {
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS games (
+        session_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    );
+  }
+
+  save(sessionId: string, game: Game): void {
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO games (session_id, state, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT(session_id) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at`
+        )
+        .run(sessionId, serializeGame(game), Date.now());
+    } catch (error) {
+      console.error(`Error saving game ${sessionId}:`, error);
+    }
+  }
+
+  delete(sessionId: string): void {
+    try {
+      this.db.prepare(`DELETE FROM games WHERE session_id = ?`).run(sessionId);
+    } catch (error) {
+      console.error(`Error deleting game ${sessionId}:`, error);
+    }
+  }
+
+  loadAll(): Array<{ sessionId: string; game: Game }> {
+    const rows = this.db
+      .prepare(`SELECT session_id, state FROM games ORDER BY updated_at`)
+      .all() as Array<{ session_id: string; state: string }>;
+
+    const sessions: Array<{ sessionId: string; game: Game }> = [];
+    for (const row of rows) {
+      try {
+        sessions.push({ sessionId: row.session_id, game: deserializeGame(row.state) });
+      } catch (error) {
+        console.error(`Error loading game ${row.session_id}, discarding it:`, error);
+        this.delete(row.session_id);
+      }
+    }
+    return sessions;
+  }
+}
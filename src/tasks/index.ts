@@ -0,0 +1,85 @@
+import { TaskDifficulty, type Task } from "../types.js";
+import {
+  registerTaskType,
+  getTaskType,
+  getTaskTypes,
+  matchesAnswer,
+  pickRandom,
+  shiftDifficulty,
+  TASK_DIFFICULTIES,
+  type TaskDefinition,
+} from "./registry.js";
+import { pinTask } from "./types/pin.js";
+import { wordTask } from "./types/word.js";
+import { mathTask } from "./types/math.js";
+import { unscrambleTask } from "./types/unscramble.js";
+import { countTask } from "./types/count.js";
+import { triviaTask } from "./types/trivia.js";
+import { sequenceTask } from "./types/sequence.js";
+import { riddleTask } from "./types/riddle.js";
+import { emojiTask } from "./types/emoji.js";
+import { memoryTask } from "./types/memory.js";
+
+export {
+  registerTaskType,
+  getTaskType,
+  getTaskTypes,
+  shiftDifficulty,
+  TASK_DIFFICULTIES,
+  type TaskDefinition,
+};
+
+// Built-in task types
+for (const definition of [
+  pinTask,
+  wordTask,
+  mathTask,
+  unscrambleTask,
+  countTask,
+  triviaTask,
+  sequenceTask,
+  riddleTask,
+  emojiTask,
+  memoryTask,
+]) {
+  registerTaskType(definition);
+}
+
+// Fixed-tier types outside the requested tier stay in the pool, picked this much less often
+const OFF_TIER_WEIGHT = 0.5;
+
+function getTaskWeight(definition: TaskDefinition, difficulty: TaskDifficulty): number {
+  return definition.scalable || definition.difficulty === difficulty ? 1 : OFF_TIER_WEIGHT;
+}
+
+/**
+ * Generate a task of a random registered type at the given difficulty.
+ * Every type can come up at any tier: scalable types play at the requested tier,
+ * fixed types at their own (less often when it differs from the requested one).
+ */
+export function generateTask(difficulty: TaskDifficulty = TaskDifficulty.MEDIUM): Task {
+  const candidates = getTaskTypes();
+  const totalWeight = candidates.reduce(
+    (sum, definition) => sum + getTaskWeight(definition, difficulty),
+    0
+  );
+  let roll = Math.random() * totalWeight;
+  const definition =
+    candidates.find((candidate) => (roll -= getTaskWeight(candidate, difficulty)) < 0) ??
+    pickRandom(candidates);
+  const taskDifficulty = definition.scalable ? difficulty : definition.difficulty;
+  return {
+    id: `${definition.type.toLowerCase()}-${Date.now()}-${Math.random()}`,
+    type: definition.type,
+    difficulty: taskDifficulty,
+    completed: false,
+    ...definition.generate(taskDifficulty),
+  };
+}
+
+export function validateTaskAnswer(task: Task, answer: string): boolean {
+  const definition = getTaskType(task.type);
+  return definition?.validate
+    ? definition.validate(task, answer)
+    : matchesAnswer(task, answer);
+}
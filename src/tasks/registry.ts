@@ -0,0 +1,64 @@
+import { TaskDifficulty, type Task } from "../types.js";
+
+/**
+ * Task type registry.
+ * Each task type is a module that generates a question/answer pair, declares
+ * its difficulty and can override how answers are checked. Scalable types
+ * generate easier or harder variants of themselves for the requested tier
+ * (e.g. bigger operands); the others always play at their own difficulty.
+ * Types register
+ * themselves in tasks/index.ts; tasks store only their type ID so persisted
+ * tasks are validated by the same module after a restart.
+ */
+export type GeneratedTask = Pick<Task, "question" | "answer" | "acceptedAnswers" | "memorize">;
+
+export interface TaskDefinition {
+  type: string;
+  difficulty: TaskDifficulty;
+  /** Whether generate() honours the requested difficulty (otherwise it always plays at `difficulty`) */
+  scalable?: boolean;
+  generate(difficulty: TaskDifficulty): GeneratedTask;
+  /** Defaults to a case-insensitive match against the answer and accepted answers */
+  validate?(task: Task, answer: string): boolean;
+}
+
+const taskTypes = new Map<string, TaskDefinition>();
+
+export function registerTaskType(definition: TaskDefinition) {
+  taskTypes.set(definition.type, definition);
+}
+
+export function getTaskType(type: string): TaskDefinition | undefined {
+  return taskTypes.get(type);
+}
+
+export function getTaskTypes(): TaskDefinition[] {
+  return Array.from(taskTypes.values());
+}
+
+// Tiers from easiest to hardest
+export const TASK_DIFFICULTIES = [TaskDifficulty.EASY, TaskDifficulty.MEDIUM, TaskDifficulty.HARD];
+
+/**
+ * Move a difficulty up (positive steps) or down a number of tiers, staying within range
+ */
+export function shiftDifficulty(difficulty: TaskDifficulty, steps: number): TaskDifficulty {
+  const index = TASK_DIFFICULTIES.indexOf(difficulty) + steps;
+  return TASK_DIFFICULTIES[Math.min(Math.max(index, 0), TASK_DIFFICULTIES.length - 1)];
+}
+
+export function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function matchesAnswer(task: Task, answer: string): boolean {
+  const normalized = normalizeAnswer(answer);
+  return [task.answer, ...(task.acceptedAnswers ?? [])].some(
+    (expected) => normalizeAnswer(expected) === normalized
+  );
+}
+
+// Helper for task modules to pick from their content lists
+export function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
@@ -0,0 +1,16 @@
+import { TaskDifficulty } from "../../types.js";
+import type { TaskDefinition } from "../registry.js";
+import { pickWord } from "./word.js";
+
+export const countTask: TaskDefinition = {
+  type: "COUNT",
+  difficulty: TaskDifficulty.EASY,
+  scalable: true,
+  generate(difficulty) {
+    const text = pickWord(difficulty);
+    return {
+      question: `Count letters: How many letters in "${text}"?`,
+      answer: text.length.toString(),
+    };
+  },
+};
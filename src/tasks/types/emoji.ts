@@ -0,0 +1,28 @@
+import { TaskDifficulty } from "../../types.js";
+import { pickRandom, type TaskDefinition } from "../registry.js";
+
+const EMOJI_PUZZLES = [
+  { emoji: "🌞🌻", answer: "sunflower" },
+  { emoji: "⭐🐟", answer: "starfish" },
+  { emoji: "❄️⛄", answer: "snowman" },
+  { emoji: "🔥🪰", answer: "firefly" },
+  { emoji: "🧈🪰", answer: "butterfly" },
+  { emoji: "🌲🍎", answer: "pineapple" },
+  { emoji: "🦶⚽", answer: "football" },
+  { emoji: "📖🪱", answer: "bookworm" },
+  { emoji: "🍯🐝", answer: "honeybee" },
+  { emoji: "☕🎂", answer: "cupcake" },
+];
+
+export const emojiTask: TaskDefinition = {
+  type: "EMOJI",
+  difficulty: TaskDifficulty.MEDIUM,
+  generate() {
+    const { emoji, answer } = pickRandom(EMOJI_PUZZLES);
+    return { question: `Decode the emoji (one word): ${emoji}`, answer };
+  },
+  // Compound words may be typed with a space or hyphen
+  validate(task, answer) {
+    return answer.trim().toLowerCase().replace(/[\s-]+/g, "") === task.answer;
+  },
+};
@@ -0,0 +1,28 @@
+import { TaskDifficulty } from "../../types.js";
+import type { TaskDefinition } from "../registry.js";
+
+// Operand ranges per tier: a in [min, min + range), b in [1, max]
+const OPERANDS: Record<TaskDifficulty, { aMin: number; aRange: number; bMax: number }> = {
+  [TaskDifficulty.EASY]: { aMin: 10, aRange: 40, bMax: 9 },
+  [TaskDifficulty.MEDIUM]: { aMin: 10, aRange: 100, bMax: 50 },
+  [TaskDifficulty.HARD]: { aMin: 100, aRange: 900, bMax: 500 },
+};
+
+export const mathTask: TaskDefinition = {
+  type: "MATH",
+  difficulty: TaskDifficulty.MEDIUM,
+  scalable: true,
+  generate(difficulty) {
+    const { aMin, aRange, bMax } = OPERANDS[difficulty];
+    const a = Math.floor(Math.random() * aRange) + aMin;
+    const b = Math.floor(Math.random() * bMax) + 1;
+    const operation = Math.random() > 0.5 ? "+" : "-";
+    const answer = operation === "+" ? a + b : a - b;
+    return { question: `Solve: ${a} ${operation} ${b}`, answer: answer.toString() };
+  },
+  // Numeric answers match by value (e.g. "083" is 83)
+  validate(task, answer) {
+    const value = Number(answer.trim());
+    return answer.trim() !== "" && value === Number(task.answer);
+  },
+};
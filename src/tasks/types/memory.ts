@@ -0,0 +1,29 @@
+import { TaskDifficulty } from "../../types.js";
+import type { TaskDefinition } from "../registry.js";
+
+const MEMORY_DIGITS: Record<TaskDifficulty, number> = {
+  [TaskDifficulty.EASY]: 4,
+  [TaskDifficulty.MEDIUM]: 5,
+  [TaskDifficulty.HARD]: 7,
+};
+const MEMORY_DURATION_MS = 10 * 1000; // Question follows 10 seconds after the digits are shown
+
+export const memoryTask: TaskDefinition = {
+  type: "MEMORY",
+  difficulty: TaskDifficulty.HARD,
+  scalable: true,
+  generate(difficulty) {
+    const digits = Array.from({ length: MEMORY_DIGITS[difficulty] }, () =>
+      Math.floor(Math.random() * 10)
+    );
+    return {
+      question: "Memory: What were the digits you were shown?",
+      answer: digits.join(""),
+      memorize: { content: digits.join(" "), durationMs: MEMORY_DURATION_MS },
+    };
+  },
+  // Digits can be typed with or without spaces
+  validate(task, answer) {
+    return answer.replace(/\s+/g, "") === task.answer;
+  },
+};
@@ -0,0 +1,19 @@
+import { TaskDifficulty } from "../../types.js";
+import type { TaskDefinition } from "../registry.js";
+
+const PIN_DIGITS: Record<TaskDifficulty, number> = {
+  [TaskDifficulty.EASY]: 4,
+  [TaskDifficulty.MEDIUM]: 5,
+  [TaskDifficulty.HARD]: 6,
+};
+
+export const pinTask: TaskDefinition = {
+  type: "PIN",
+  difficulty: TaskDifficulty.EASY,
+  scalable: true,
+  generate(difficulty) {
+    const min = 10 ** (PIN_DIGITS[difficulty] - 1);
+    const pin = Math.floor(min + Math.random() * 9 * min).toString();
+    return { question: `Enter PIN: ${pin}`, answer: pin };
+  },
+};
@@ -0,0 +1,27 @@
+import { TaskDifficulty } from "../../types.js";
+import { matchesAnswer, pickRandom, type TaskDefinition } from "../registry.js";
+
+const RIDDLES = [
+  { question: "What has keys but can't open locks?", answer: "piano", acceptedAnswers: ["keyboard"] },
+  { question: "What gets wetter the more it dries?", answer: "towel" },
+  { question: "What has hands but can't clap?", answer: "clock" },
+  { question: "What has a neck but no head?", answer: "bottle" },
+  { question: "What can you catch but not throw?", answer: "cold", acceptedAnswers: ["a cold"] },
+  { question: "What runs but never walks?", answer: "river", acceptedAnswers: ["water"] },
+  { question: "What has one eye but can't see?", answer: "needle" },
+  { question: "What goes up but never comes down?", answer: "age", acceptedAnswers: ["your age"] },
+];
+
+export const riddleTask: TaskDefinition = {
+  type: "RIDDLE",
+  difficulty: TaskDifficulty.HARD,
+  generate() {
+    const { question, answer, acceptedAnswers } = pickRandom(RIDDLES);
+    return { question: `Riddle: ${question}`, answer, acceptedAnswers };
+  },
+  // "a clock" and "the clock" count as "clock"
+  validate(task, answer) {
+    const withoutArticle = answer.trim().replace(/^(a|an|the)\s+/i, "");
+    return matchesAnswer(task, answer) || matchesAnswer(task, withoutArticle);
+  },
+};
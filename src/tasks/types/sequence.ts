@@ -0,0 +1,41 @@
+import { TaskDifficulty } from "../../types.js";
+import type { TaskDefinition } from "../registry.js";
+
+const SEQUENCE_LENGTH = 4;
+
+// Chance of a geometric sequence and the range of arithmetic steps per tier
+const SEQUENCES: Record<TaskDifficulty, { geometricChance: number; minStep: number; stepRange: number }> = {
+  [TaskDifficulty.EASY]: { geometricChance: 0, minStep: 2, stepRange: 4 },
+  [TaskDifficulty.MEDIUM]: { geometricChance: 0.3, minStep: 2, stepRange: 12 },
+  [TaskDifficulty.HARD]: { geometricChance: 0.5, minStep: 11, stepRange: 20 },
+};
+
+export const sequenceTask: TaskDefinition = {
+  type: "SEQUENCE",
+  difficulty: TaskDifficulty.MEDIUM,
+  scalable: true,
+  generate(difficulty) {
+    // Either add a fixed step or multiply by a fixed factor
+    const { geometricChance, minStep, stepRange } = SEQUENCES[difficulty];
+    const isGeometric = Math.random() < geometricChance;
+    const start = Math.floor(Math.random() * 9) + 1;
+    const step = isGeometric
+      ? Math.floor(Math.random() * 2) + 2
+      : Math.floor(Math.random() * stepRange) + minStep;
+
+    const terms = [start];
+    for (let i = 1; i <= SEQUENCE_LENGTH; i++) {
+      const previous = terms[i - 1];
+      terms.push(isGeometric ? previous * step : previous + step);
+    }
+
+    const answer = terms.pop()!;
+    return {
+      question: `Complete the sequence: ${terms.join(", ")}, ?`,
+      answer: answer.toString(),
+    };
+  },
+  validate(task, answer) {
+    return answer.trim() !== "" && Number(answer.trim()) === Number(task.answer);
+  },
+};
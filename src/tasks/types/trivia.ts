@@ -0,0 +1,24 @@
+import { TaskDifficulty } from "../../types.js";
+import { pickRandom, type TaskDefinition } from "../registry.js";
+
+const TRIVIA = [
+  { question: "What is the largest planet in our solar system?", answer: "jupiter" },
+  { question: "How many legs does a spider have?", answer: "8", acceptedAnswers: ["eight"] },
+  { question: "What is the chemical symbol for gold?", answer: "au" },
+  { question: "What is the capital of Japan?", answer: "tokyo" },
+  { question: "How many continents are there?", answer: "7", acceptedAnswers: ["seven"] },
+  { question: "What gas do plants absorb from the air?", answer: "carbon dioxide", acceptedAnswers: ["co2"] },
+  { question: "What is the fastest land animal?", answer: "cheetah" },
+  { question: "How many sides does a hexagon have?", answer: "6", acceptedAnswers: ["six"] },
+  { question: "Which planet is known as the Red Planet?", answer: "mars" },
+  { question: "What is the freezing point of water in Celsius?", answer: "0", acceptedAnswers: ["zero"] },
+];
+
+export const triviaTask: TaskDefinition = {
+  type: "TRIVIA",
+  difficulty: TaskDifficulty.MEDIUM,
+  generate() {
+    const { question, answer, acceptedAnswers } = pickRandom(TRIVIA);
+    return { question: `Trivia: ${question}`, answer, acceptedAnswers };
+  },
+};
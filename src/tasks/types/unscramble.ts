@@ -0,0 +1,41 @@
+import { TaskDifficulty } from "../../types.js";
+import { shuffle } from "../../utils/helpers.js";
+import { pickRandom, type TaskDefinition } from "../registry.js";
+
+// Real words without common anagrams, so the unscrambled answer is unambiguous.
+// Longer words are harder to unscramble.
+const UNSCRAMBLE_WORDS: Record<TaskDifficulty, string[]> = {
+  [TaskDifficulty.EASY]: ["jump", "bike", "frog", "milk", "duck"],
+  [TaskDifficulty.MEDIUM]: [
+    "chair",
+    "train",
+    "music",
+    "house",
+    "tiger",
+    "apple",
+    "plant",
+    "mouse",
+  ],
+  [TaskDifficulty.HARD]: ["pencil", "rabbit", "window", "giraffe", "blanket", "dolphin"],
+};
+
+function scramble(word: string): string {
+  let scrambled = word;
+  while (scrambled === word) {
+    scrambled = shuffle(word.split("")).join("");
+  }
+  return scrambled;
+}
+
+export const unscrambleTask: TaskDefinition = {
+  type: "UNSCRAMBLE",
+  difficulty: TaskDifficulty.MEDIUM,
+  scalable: true,
+  generate(difficulty) {
+    const word = pickRandom(UNSCRAMBLE_WORDS[difficulty]);
+    return {
+      question: `Unscramble: ${scramble(word).toUpperCase()} → ?`,
+      answer: word,
+    };
+  },
+};
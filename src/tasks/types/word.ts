@@ -0,0 +1,40 @@
+import { TaskDifficulty } from "../../types.js";
+import { pickRandom, type TaskDefinition } from "../registry.js";
+
+export const WORDS = [
+  "equilibrium",
+  "xenolith",
+  "protocol",
+  "algorithm",
+  "synthesis",
+  "quantum",
+  "momentum",
+  "velocity",
+  "architecture",
+  "compilation",
+];
+
+// Words up to this length are easy to type or count
+const SHORT_WORD_LENGTH = 8;
+
+/**
+ * Pick a word for a tier: short words when easy, long words otherwise
+ */
+export function pickWord(difficulty: TaskDifficulty): string {
+  const isEasy = difficulty === TaskDifficulty.EASY;
+  return pickRandom(WORDS.filter((word) => (word.length <= SHORT_WORD_LENGTH) === isEasy));
+}
+
+export const wordTask: TaskDefinition = {
+  type: "WORD",
+  difficulty: TaskDifficulty.EASY,
+  scalable: true,
+  generate(difficulty) {
+    // Hard word tasks are a two-word phrase
+    const text =
+      difficulty === TaskDifficulty.HARD
+        ? `${pickWord(difficulty)} ${pickWord(TaskDifficulty.EASY)}`
+        : pickWord(difficulty);
+    return { question: `Type this: ${text}`, answer: text };
+  },
+};
@@ -3,25 +3,59 @@ export enum GameState {
   LOBBY_CREATED = "LOBBY_CREATED",
   WAITING_FOR_PLAYERS = "WAITING_FOR_PLAYERS",
   ASSIGN_ROLES = "ASSIGN_ROLES",
-  ROUND_1_TASKS = "ROUND_1_TASKS",
-  ROUND_1_KILL = "ROUND_1_KILL",
-  ROUND_1_DISCUSSION = "ROUND_1_DISCUSSION",
-  ROUND_1_VOTING = "ROUND_1_VOTING",
-  ROUND_2_TASKS = "ROUND_2_TASKS",
-  ROUND_2_KILL = "ROUND_2_KILL",
-  ROUND_2_DISCUSSION = "ROUND_2_DISCUSSION",
-  ROUND_2_VOTING = "ROUND_2_VOTING",
-  ROUND_3_TASKS = "ROUND_3_TASKS",
-  ROUND_3_KILL = "ROUND_3_KILL",
-  ROUND_3_DISCUSSION = "ROUND_3_DISCUSSION",
-  ROUND_3_VOTING = "ROUND_3_VOTING",
+  IN_ROUND = "IN_ROUND", // see Game.round and Game.phase
   GAME_END = "GAME_END",
   CLEANUP = "CLEANUP",
 }
 
+// Phases within a round (transitions are defined in game/phases.ts)
+export enum Phase {
+  TASKS = "TASKS", // Combined Task & Kill phase
+  DISCUSSION = "DISCUSSION",
+  VOTING = "VOTING",
+  RUNOFF = "RUNOFF", // Re-vote between tied players (only after a tie)
+  DEFENSE = "DEFENSE", // Trial mode: the nominee defends themselves
+  VERDICT = "VERDICT", // Trial mode: guilty/innocent vote on the nominee
+}
+
 export enum Role {
   CREW = "CREW",
   IMPOSTOR = "IMPOSTOR",
+  DOCTOR = "DOCTOR", // Town: protects one player per round
+  DETECTIVE = "DETECTIVE", // Town: investigates one player per round
+  JESTER = "JESTER", // Neutral: wins by getting voted out
+}
+
+// How the votes needed to eliminate a player are counted
+export enum VotingRule {
+  PLURALITY = "plurality", // Most votes wins
+  MAJORITY_ALIVE = "majority", // More than half of the alive players
+  MAJORITY_CAST = "cast", // More than half of the votes cast
+}
+
+// How the town decides who to eliminate
+export enum VotingMode {
+  VOTE = "vote", // Everyone votes for a player with buttons
+  TRIAL = "trial", // Nominate during discussion, then a defense and a guilty/innocent verdict
+}
+
+// Mafia sabotages during the Task & Kill phase (see utils/sabotageButtons.ts)
+export enum SabotageType {
+  SCRAMBLE = "scramble", // Replace every open town task with a new one
+  DELAY = "delay", // Push back tasks that haven't been dispatched yet
+  SILENCE = "silence", // Silence the start of the next discussion
+}
+
+export enum Verdict {
+  GUILTY = "guilty",
+  INNOCENT = "innocent",
+}
+
+// Win conditions are evaluated per faction (see GameManager.checkWinCondition)
+export enum Faction {
+  TOWN = "TOWN",
+  MAFIA = "MAFIA",
+  JESTER = "JESTER",
 }
 
 export interface Player {
@@ -30,6 +64,7 @@ export interface Player {
   role: Role | null;
   isAlive: boolean;
   completedTasks: number;
+  taskSolveTimesMs: number[]; // Dispatch-to-answer time of each task, the full expiry for missed ones (adaptive difficulty)
   killAttempts: number;
   lastKillAttempt: number | null; // timestamp
   voted: boolean;
@@ -42,24 +77,96 @@ export interface Game {
   originalGroupId: string | null; // The group where /start was called
   players: Map<string, Player>;
   round: number;
+  phase: Phase | null; // Current phase while state is IN_ROUND
+  roundStartedAt: number | null; // timestamp
+  maxRounds: number;
   startTime: number | null;
   joinDeadline: number | null;
   currentPhaseDeadline: number | null;
-  impostorInboxId: string | null;
+  mafiaInboxIds: string[];
+  mafiaGroupId: string | null; // Hidden team chat (only when there is more than one mafia)
+  protectedInboxId: string | null; // Doctor's protection for the current round
+  investigatorsThisRound: string[]; // Detectives who already investigated this round
+  history: GameEvent[]; // Private actions, revealed after the game
+  jesterWinnerInboxId: string | null; // Set when the Jester is voted out
+  preset: string; // Role preset the roles are dealt from (see config/rolePresets.json)
+  mafiaCount: number | null; // Per-lobby override (null = use the preset's mafia count)
+  votingRule: VotingRule;
+  liveVoteTally: boolean; // Post "n/N voted" to the lobby as votes arrive
+  anonymousVoting: boolean; // Hide who voted for whom (only totals are shown)
+  runoffCandidates: string[]; // Tied players on the runoff ballot
+  votingMode: VotingMode;
+  nominations: Map<string, string>; // Trial mode: nominator inboxId -> nominee inboxId
+  trialInboxId: string | null; // Trial mode: the player on trial this round
+  verdicts: Map<string, Verdict>; // Trial mode: voter inboxId -> verdict
+  taskGoal: number; // Real (town) tasks across the whole game
+  realTasksCompleted: number; // Town task completions (mafia fakes don't count)
+  taskMilestone: number; // Last progress milestone announced (percent)
   eliminatedPlayers: Set<string>;
   killCooldown: number; // milliseconds
   killSuccessChance: number; // 0-1
   maxKillAttempts: number;
+  sabotagesUsed: number; // Mafia team sabotages this round
+  maxSabotages: number; // Per round, shared by the mafia team
+  sabotageReadyAt: Map<SabotageType, number>; // Cooldown end per sabotage (timestamp)
+  silencePending: boolean; // The next discussion starts silenced
+  silencedUntil: number | null; // timestamp
   taskAssignments: Map<string, Task[]>; // inboxId -> Task[] (multiple tasks per player)
   currentTaskIndex: Map<string, number>; // inboxId -> current task index
+  scheduledTimers: Map<string, ScheduledTimer>; // timer name -> pending timer
+}
+
+export type TimerPayload = Record<string, string | number>;
+
+export interface ScheduledTimer {
+  name: string;
+  handlerId: string; // registered callback identity (see utils/timers.ts)
+  deadline: number; // timestamp
+  payload: TimerPayload;
+  isPhase: boolean; // phase timers drive currentPhaseDeadline
+}
+
+export enum GameEventType {
+  INVESTIGATION = "INVESTIGATION",
+  CLUE = "CLUE",
+  SABOTAGE = "SABOTAGE",
+}
+
+export interface GameEvent {
+  type: GameEventType;
+  round: number;
+  timestamp: number;
+  message: string; // Shown in the post-game reveal
+}
+
+export enum TaskDifficulty {
+  EASY = "EASY",
+  MEDIUM = "MEDIUM",
+  HARD = "HARD",
 }
 
 export interface Task {
   id: string;
-  type: "PIN" | "WORD" | "MATH" | "UNSCRAMBLE" | "COUNT";
+  type: string; // Registered task type (see tasks/registry.ts)
+  difficulty: TaskDifficulty;
   question: string;
   answer: string;
+  acceptedAnswers?: string[]; // Other answers that also count as correct
+  memorize?: { content: string; durationMs: number }; // Shown first; the question follows after durationMs
   completed: boolean;
+  failed?: boolean; // Expired before it was answered
+  dispatchedAt?: number; // timestamp the question was sent
+  expiresAt?: number; // timestamp
+  completedAt?: number; // timestamp
+}
+
+export interface LobbyOptions {
+  preset?: string;
+  votingRule?: VotingRule;
+  liveVoteTally?: boolean;
+  anonymousVoting?: boolean;
+  votingMode?: VotingMode;
+  mafiaCount?: number | null;
 }
 
 export interface VoteResult {
@@ -67,3 +174,14 @@ export interface VoteResult {
   votes: number;
 }
 
+// Vote target recorded when a player chooses to skip (abstain)
+export const SKIP_VOTE = "skip";
+
+// Result of counting the votes under the game's voting rule
+export type VoteOutcome =
+  | { type: "eliminate"; target: string; votes: number }
+  | { type: "skip"; votes: number }
+  | { type: "tie"; candidates: string[]; votes: number }
+  | { type: "no-majority"; top: VoteResult; needed: number }
+  | { type: "no-votes" };
+
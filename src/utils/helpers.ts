@@ -1,3 +1,7 @@
+import type { LobbyOptions } from "../types.js";
+import { getPresetNames, getRolePreset } from "../config/rolePresets.js";
+import { parseVotingMode, parseVotingRule } from "./votingRules.js";
+
 // Helper to extract username from inboxId or message
 export async function getUsername(ctx: any): Promise<string> {
   try {
@@ -33,9 +37,26 @@ export function isMentioned(content: string, agentAddress: string): boolean {
   return hasMention || hasCommand;
 }
 
-// Helper to parse command from message
+// Private actions that can be sent in a DM without mentioning the agent
+export const DM_COMMANDS = ["task", "kill", "sabotage", "protect", "investigate"];
+
+// Private actions that also work without a slash in the mafia team group
+export const MAFIA_GROUP_COMMANDS = ["kill", "sabotage"];
+
+// Commands that work without a leading slash (e.g. "@mafia vote alice")
+const WORD_COMMANDS = ["vote", "nominate", "guilty", "innocent"];
+
+// Trial words that read like ordinary chat ("@bob innocent until proven otherwise"),
+// so without a slash they only count when addressed to @mafia
+const MAFIA_MENTION_COMMANDS = ["nominate", "guilty", "innocent"];
+
+// Helper to parse command from message.
+// Private actions only parse without a slash where they can't be mistaken for
+// chat ("@bob protect me please"): pass DM_COMMANDS in a DM and
+// MAFIA_GROUP_COMMANDS in the mafia team group.
 export function parseCommand(
-  content: string
+  content: string,
+  privateWords: string[] = []
 ): { command: string; args: string[] } | null {
   const trimmed = content.trim();
 
@@ -45,7 +66,7 @@ export function parseCommand(
     .replace(/@0x[a-fA-F0-9]{40}/g, "")
     .trim();
 
-  // Match commands like "/start", "/join", "/task 1234", "vote alice", "kill bob"
+  // Match commands like "/start", "/join", "/task 1234", "task 1234", "vote alice", "kill bob"
   const commandMatch = withoutMentions.match(/^\/(\w+)(?:\s+(.+))?$/);
   if (commandMatch) {
     return {
@@ -54,11 +75,12 @@ export function parseCommand(
     };
   }
 
-  // Match non-slash commands like "vote alice", "kill bob"
+  // Match non-slash commands like "vote alice", "nominate bob", "guilty", "kill bob"
   const wordMatch = withoutMentions.match(/^(\w+)(?:\s+(.+))?$/);
   if (wordMatch) {
     const cmd = wordMatch[1].toLowerCase();
-    if (cmd === "vote" || cmd === "kill") {
+    const needsMafiaMention = MAFIA_MENTION_COMMANDS.includes(cmd) && !/@mafia\b/i.test(trimmed);
+    if ((WORD_COMMANDS.includes(cmd) || privateWords.includes(cmd)) && !needsMafiaMention) {
       return {
         command: cmd,
         args: wordMatch[2] ? wordMatch[2].split(/\s+/) : [],
@@ -69,6 +91,72 @@ export function parseCommand(
   return null;
 }
 
+// Helper to shuffle a copy of an array (Fisher-Yates)
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Helper to parse /start options, e.g. "/start chaos mafia=2 voting=plurality anonymous=on"
+export function parseStartOptions(args: string[]): LobbyOptions {
+  const options: LobbyOptions = {};
+  for (const arg of args) {
+    if (getRolePreset(arg)) {
+      options.preset = arg.toLowerCase();
+      continue;
+    }
+
+    const votingMatch = arg.toLowerCase().match(/^voting=(.+)$/);
+    if (votingMatch) {
+      const rule = parseVotingRule(votingMatch[1]);
+      if (!rule) {
+        throw new Error(`Unknown voting rule "${votingMatch[1]}". Use plurality, majority or cast`);
+      }
+      options.votingRule = rule;
+      continue;
+    }
+
+    const modeMatch = arg.toLowerCase().match(/^mode=(.+)$/);
+    if (modeMatch) {
+      const mode = parseVotingMode(modeMatch[1]);
+      if (!mode) {
+        throw new Error(`Unknown voting mode "${modeMatch[1]}". Use vote or trial`);
+      }
+      options.votingMode = mode;
+      continue;
+    }
+
+    const toggleMatch = arg.toLowerCase().match(/^(tally|anonymous)=(on|off)$/);
+    if (toggleMatch) {
+      const enabled = toggleMatch[2] === "on";
+      if (toggleMatch[1] === "tally") {
+        options.liveVoteTally = enabled;
+      } else {
+        options.anonymousVoting = enabled;
+      }
+      continue;
+    }
+
+    const mafiaMatch = arg.toLowerCase().match(/^mafia=(\d+)$/);
+    if (mafiaMatch) {
+      const count = parseInt(mafiaMatch[1], 10);
+      if (count < 1) {
+        throw new Error("Mafia count must be at least 1");
+      }
+      options.mafiaCount = count;
+    } else {
+      throw new Error(
+        `Unknown option "${arg}". Usage: @mafia /start [${getPresetNames().join("|")}] [mafia=<count>] [voting=plurality|majority|cast] [mode=vote|trial] [tally=on|off] [anonymous=on|off]`
+      );
+    }
+  }
+  return options;
+}
+
 // Helper to format time remaining message
 export function formatTimeRemaining(deadline: number | null): string | null {
   if (!deadline) return null;
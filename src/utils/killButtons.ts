@@ -8,19 +8,16 @@ import type { GameManager } from "../gameManager.js";
 import { getPlayerAddress } from "./playerAddress.js";
 
 /**
- * Send kill buttons for all alive players (except mafia) in DM
+ * Send kill buttons for all alive players (except the mafia team) in DM
  */
 export async function sendKillButtons(
   agent: Agent,
   dm: any,
   gameManager: GameManager,
-  round: number,
-  mafiaInboxId: string
+  round: number
 ): Promise<void> {
   try {
-    const alivePlayers = gameManager.getAlivePlayers().filter(
-      (p) => p.inboxId !== mafiaInboxId
-    );
+    const alivePlayers = gameManager.getAliveTown();
 
     if (alivePlayers.length === 0) {
       return;
@@ -73,12 +70,7 @@ export async function sendKillButtons(
   } catch (error) {
     console.error("Error sending kill buttons:", error);
     // Fallback: send text message with instructions
-    const aliveUsernames = gameManager
-      .getAlivePlayerUsernames()
-      .filter((u) => {
-        const player = gameManager.getAlivePlayers().find((p) => p.username === u);
-        return player && player.inboxId !== mafiaInboxId;
-      });
+    const aliveUsernames = gameManager.getAliveTown().map((p) => p.username);
     await dm.send(
       `Round ${round} Kill Phase.\n\n` +
         `Try killing a player using:\n` +
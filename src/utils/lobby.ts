@@ -1,3 +1,4 @@
+import type { Agent } from "@xmtp/agent-sdk";
 import type { GameManager } from "../gameManager.js";
 
 // Helper to check if command is being used in the lobby group
@@ -7,6 +8,12 @@ export function isCommandInLobbyGroup(ctx: any, gameManager: GameManager): boole
   return currentGroupId === lobbyGroupId;
 }
 
+// Helper to check if command is being used in the private mafia team group
+export function isCommandInMafiaGroup(ctx: any, gameManager: GameManager): boolean {
+  const mafiaGroupId = gameManager.getGame().mafiaGroupId;
+  return !!mafiaGroupId && ctx.conversation?.id === mafiaGroupId;
+}
+
 // Helper to send error if command not in lobby group
 export async function requireLobbyGroup(
   ctx: any,
@@ -23,3 +30,19 @@ export async function requireLobbyGroup(
   return true; // Command allowed
 }
 
+// Helper to confirm a vote to the voter: where they voted, or by DM when voting is anonymous
+export async function sendVoteConfirmation(
+  ctx: any,
+  agent: Agent,
+  gameManager: GameManager,
+  text: string
+): Promise<void> {
+  const isDM = ctx.conversation && !("addMembers" in ctx.conversation);
+  if (!gameManager.getGame().anonymousVoting || isDM) {
+    await ctx.sendText(text);
+    return;
+  }
+
+  const dm = await agent.client.conversations.newDm(ctx.message.senderInboxId);
+  await dm.send(text);
+}
@@ -0,0 +1,103 @@
+import type { Agent } from "@xmtp/agent-sdk";
+import {
+  ContentTypeActions,
+  type ActionsContent,
+} from "../xmtp-inline-actions/types/index.js";
+import { KILL_PHASE_DURATION_MS } from "../config/gameConfig.js";
+import type { GameManager } from "../gameManager.js";
+import { getPlayerAddress } from "./playerAddress.js";
+
+export type RoleAction = "protect" | "investigate";
+
+const ROLE_ACTIONS: Record<
+  RoleAction,
+  { emoji: string; description: string; includeSelf: boolean }
+> = {
+  protect: {
+    emoji: "🩺",
+    description: "Protect a player:\n\nClick a button below to protect them for this round.",
+    includeSelf: true,
+  },
+  investigate: {
+    emoji: "🔍",
+    description: "Investigate a player:\n\nClick a button below to learn whether they are MAFIA or TOWN.",
+    includeSelf: false,
+  },
+};
+
+/**
+ * Send a special role's action buttons (protect, investigate) for alive players in DM
+ */
+export async function sendRoleActionButtons(
+  agent: Agent,
+  dm: any,
+  gameManager: GameManager,
+  round: number,
+  action: RoleAction,
+  actorInboxId: string
+): Promise<void> {
+  const { emoji, description, includeSelf } = ROLE_ACTIONS[action];
+  const alivePlayers = gameManager
+    .getAlivePlayers()
+    .filter((p) => includeSelf || p.inboxId !== actorInboxId);
+
+  try {
+    if (alivePlayers.length === 0) {
+      return;
+    }
+
+    // Get the lobby group to resolve addresses
+    const lobbyId = gameManager.getGame().lobbyGroupId;
+    const lobbyGroup = lobbyId
+      ? await agent.client.conversations.getConversationById(lobbyId)
+      : null;
+
+    // Create buttons for each alive player
+    const roleActions = await Promise.all(
+      alivePlayers.map(async (player) => {
+        // Try to get player address for display
+        const playerAddress = lobbyGroup
+          ? await getPlayerAddress(agent, player.inboxId, lobbyGroup)
+          : null;
+        const displayName = playerAddress
+          ? `${player.username} (${playerAddress.slice(0, 6)}...${playerAddress.slice(-4)})`
+          : player.username;
+
+        return {
+          id: `${action}-${player.inboxId}`,
+          label: `${emoji} ${displayName}`,
+          style: "primary" as const,
+        };
+      })
+    );
+
+    const actionsContent: ActionsContent = {
+      id: `${action}-phase-${round}-${Date.now()}`,
+      description: `${emoji} ${description}`,
+      actions: roleActions,
+      expiresAt: new Date(Date.now() + KILL_PHASE_DURATION_MS).toISOString(),
+    };
+
+    // Send using underlying client
+    const client = (agent as any).client;
+    if (client && client.conversations) {
+      const conv = await client.conversations.getConversationById(dm.id);
+      if (conv) {
+        await conv.send(actionsContent, ContentTypeActions);
+      } else {
+        throw new Error("Could not get conversation");
+      }
+    } else {
+      throw new Error("Could not access client");
+    }
+  } catch (error) {
+    console.error(`Error sending ${action} buttons:`, error);
+    // Fallback: send text message with instructions
+    const aliveUsernames = alivePlayers.map((p) => p.username);
+    await dm.send(
+      `Round ${round} — ${emoji} ${action}\n\n` +
+        `Use: ${action} <username>\n\n` +
+        `Alive players: ${aliveUsernames.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { Faction, Role } from "../types.js";
+
+// How each role is shown to players
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.CREW]: "✅ TOWN MEMBER",
+  [Role.IMPOSTOR]: "🔥 MAFIA",
+  [Role.DOCTOR]: "🩺 DOCTOR",
+  [Role.DETECTIVE]: "🔍 DETECTIVE",
+  [Role.JESTER]: "🃏 JESTER",
+};
+
+// Which faction each role plays for
+const ROLE_FACTIONS: Record<Role, Faction> = {
+  [Role.CREW]: Faction.TOWN,
+  [Role.IMPOSTOR]: Faction.MAFIA,
+  [Role.DOCTOR]: Faction.TOWN,
+  [Role.DETECTIVE]: Faction.TOWN,
+  [Role.JESTER]: Faction.JESTER,
+};
+
+const FACTION_EMOJIS: Record<Faction, string> = {
+  [Faction.TOWN]: "❌",
+  [Faction.MAFIA]: "🔥",
+  [Faction.JESTER]: "🃏",
+};
+
+export function getRoleLabel(role: Role | null): string {
+  return role ? ROLE_LABELS[role] : "❔ UNASSIGNED";
+}
+
+export function getRoleFaction(role: Role | null): Faction {
+  return role ? ROLE_FACTIONS[role] : Faction.TOWN;
+}
+
+// Emoji shown when a player of this faction is eliminated
+export function getFactionEmoji(faction: Faction): string {
+  return FACTION_EMOJIS[faction];
+}
@@ -0,0 +1,80 @@
+import type { Agent } from "@xmtp/agent-sdk";
+import {
+  ContentTypeActions,
+  type ActionsContent,
+} from "../xmtp-inline-actions/types/index.js";
+import {
+  KILL_PHASE_DURATION_MS,
+  SABOTAGE_DISPATCH_DELAY_SECONDS,
+  SILENCE_DURATION_SECONDS,
+} from "../config/gameConfig.js";
+import { SabotageType } from "../types.js";
+import type { GameManager } from "../gameManager.js";
+
+export const SABOTAGES: Record<SabotageType, { emoji: string; label: string; description: string }> = {
+  [SabotageType.SCRAMBLE]: {
+    emoji: "🌀",
+    label: "Scramble tasks",
+    description: "Replace every open town task with a new one",
+  },
+  [SabotageType.DELAY]: {
+    emoji: "⏳",
+    label: "Delay tasks",
+    description: `Push back tasks that haven't been sent yet by ${SABOTAGE_DISPATCH_DELAY_SECONDS} seconds`,
+  },
+  [SabotageType.SILENCE]: {
+    emoji: "🤫",
+    label: "Silence discussion",
+    description: `Silence the first ${SILENCE_DURATION_SECONDS} seconds of the next discussion`,
+  },
+};
+
+/**
+ * Send the mafia's sabotage buttons (DM or mafia team group)
+ */
+export async function sendSabotageButtons(
+  agent: Agent,
+  conversation: any,
+  gameManager: GameManager,
+  round: number
+): Promise<void> {
+  const { sabotagesUsed, maxSabotages } = gameManager.getGame();
+  const sabotageList = Object.values(SabotageType)
+    .map((type) => `${SABOTAGES[type].emoji} ${SABOTAGES[type].label}: ${SABOTAGES[type].description}`)
+    .join("\n");
+
+  try {
+    const actionsContent: ActionsContent = {
+      id: `sabotage-phase-${round}-${Date.now()}`,
+      description:
+        `🛠️ Sabotage (${maxSabotages - sabotagesUsed}/${maxSabotages} left this round):\n\n` +
+        sabotageList,
+      actions: Object.values(SabotageType).map((type) => ({
+        id: `sabotage-${type}`,
+        label: `${SABOTAGES[type].emoji} ${SABOTAGES[type].label}`,
+        style: "secondary" as const,
+      })),
+      expiresAt: new Date(Date.now() + KILL_PHASE_DURATION_MS).toISOString(),
+    };
+
+    // Send using underlying client
+    const client = (agent as any).client;
+    if (client && client.conversations) {
+      const conv = await client.conversations.getConversationById(conversation.id);
+      if (conv) {
+        await conv.send(actionsContent, ContentTypeActions);
+      } else {
+        throw new Error("Could not get conversation");
+      }
+    } else {
+      throw new Error("Could not access client");
+    }
+  } catch (error) {
+    console.error("Error sending sabotage buttons:", error);
+    // Fallback: send text message with instructions
+    await conversation.send(
+      `Round ${round} Sabotage.\n\n${sabotageList}\n\n` +
+        `Use: sabotage ${Object.values(SabotageType).join("|")}`
+    );
+  }
+}
@@ -1,72 +1,220 @@
 import type { GameManager } from "../gameManager.js";
+import type { ScheduledTimer, TimerPayload } from "../types.js";
 
-// Timer management
-const timers = new Map<string, NodeJS.Timeout>();
+/**
+ * Timer callbacks are registered by ID so a scheduled timer can be persisted
+ * with the game (name, deadline, handler ID, payload) and re-armed after a restart.
+ */
+export type TimerHandler = (
+  gameManager: GameManager,
+  payload: TimerPayload
+) => Promise<void> | void;
 
-export function setPhaseTimer(
-  phaseName: string,
-  duration: number,
-  callback: () => void,
-  gameManager: GameManager
-) {
-  // Clear existing timer for this phase
-  const existing = timers.get(phaseName);
+const handlers = new Map<string, TimerHandler>();
+
+// Timer management (scoped per game so concurrent sessions don't collide)
+const timersByGame = new Map<GameManager, Map<string, NodeJS.Timeout>>();
+
+function getTimers(gameManager: GameManager): Map<string, NodeJS.Timeout> {
+  let timers = timersByGame.get(gameManager);
+  if (!timers) {
+    timers = new Map();
+    timersByGame.set(gameManager, timers);
+  }
+  return timers;
+}
+
+export function registerTimerHandler(handlerId: string, handler: TimerHandler) {
+  handlers.set(handlerId, handler);
+}
+
+async function fireTimer(gameManager: GameManager, timer: ScheduledTimer) {
+  const game = gameManager.getGame();
+  getTimers(gameManager).delete(timer.name);
+
+  // Timer may have been cleared (or replaced) while waiting
+  const scheduled = game.scheduledTimers.get(timer.name);
+  if (!scheduled || scheduled.deadline !== timer.deadline) {
+    return;
+  }
+
+  game.scheduledTimers.delete(timer.name);
+  // Clear deadline if this timer owned it
+  if (timer.isPhase && game.currentPhaseDeadline === timer.deadline) {
+    game.currentPhaseDeadline = null;
+  }
+  gameManager.saveState();
+
+  const handler = handlers.get(timer.handlerId);
+  if (!handler) {
+    console.error(`No timer handler registered for ${timer.handlerId} (${timer.name})`);
+    return;
+  }
+
+  try {
+    await handler(gameManager, timer.payload);
+  } catch (error) {
+    console.error(`Error in timer callback for ${timer.name}:`, error);
+  }
+}
+
+function armTimer(gameManager: GameManager, timer: ScheduledTimer) {
+  const timers = getTimers(gameManager);
+  const existing = timers.get(timer.name);
   if (existing) {
     clearTimeout(existing);
-    timers.delete(phaseName);
   }
 
-  // Set deadline in game manager if applicable
-  const deadline = Date.now() + duration;
+  const delay = Math.max(0, timer.deadline - Date.now());
+  timers.set(
+    timer.name,
+    setTimeout(() => {
+      void fireTimer(gameManager, timer);
+    }, delay)
+  );
+}
+
+/**
+ * Schedule a named timer without touching the phase deadline
+ */
+export function scheduleTimer(
+  name: string,
+  duration: number,
+  handlerId: string,
+  gameManager: GameManager,
+  payload: TimerPayload = {},
+  isPhase = false
+) {
+  const timer: ScheduledTimer = {
+    name,
+    handlerId,
+    deadline: Date.now() + duration,
+    payload,
+    isPhase,
+  };
+
   const game = gameManager.getGame();
-  if (game) {
-    game.currentPhaseDeadline = deadline;
+  game.scheduledTimers.set(name, timer);
+  if (isPhase) {
+    game.currentPhaseDeadline = timer.deadline;
   }
+  gameManager.saveState();
 
-  const timer = setTimeout(() => {
-    try {
-      callback();
-    } catch (error) {
-      console.error(`Error in phase timer callback for ${phaseName}:`, error);
-    } finally {
-      timers.delete(phaseName);
-      // Clear deadline if timer completed
-      if (game) {
-        game.currentPhaseDeadline = null;
-      }
-    }
-  }, duration);
+  armTimer(gameManager, timer);
+  console.log(`⏰ Set timer: ${name} for ${duration}ms`);
+}
 
-  timers.set(phaseName, timer);
-  console.log(`⏰ Set phase timer: ${phaseName} for ${duration}ms`);
+/**
+ * Schedule a phase timer; its deadline is exposed as the current phase deadline
+ */
+export function setPhaseTimer(
+  phaseName: string,
+  duration: number,
+  handlerId: string,
+  gameManager: GameManager,
+  payload: TimerPayload = {}
+) {
+  scheduleTimer(phaseName, duration, handlerId, gameManager, payload, true);
 }
 
 export function clearPhaseTimer(phaseName: string, gameManager: GameManager) {
+  const game = gameManager.getGame();
+  const timers = getTimers(gameManager);
   const timer = timers.get(phaseName);
   if (timer) {
     clearTimeout(timer);
     timers.delete(phaseName);
-    console.log(`⏰ Cleared phase timer: ${phaseName}`);
+    console.log(`⏰ Cleared timer: ${phaseName}`);
+  }
+
+  const scheduled = game.scheduledTimers.get(phaseName);
+  if (scheduled) {
+    game.scheduledTimers.delete(phaseName);
 
     // Clear deadline in game manager
-    const game = gameManager.getGame();
-    if (game) {
+    if (scheduled.isPhase) {
       game.currentPhaseDeadline = null;
     }
+    gameManager.saveState();
+  }
+}
+
+/**
+ * Clear every timer whose name starts with the given prefix (e.g. pending task dispatches)
+ */
+export function clearTimersByPrefix(prefix: string, gameManager: GameManager) {
+  const names = Array.from(gameManager.getGame().scheduledTimers.keys());
+  for (const name of names) {
+    if (name.startsWith(prefix)) {
+      clearPhaseTimer(name, gameManager);
+    }
   }
 }
 
+/**
+ * Push back every timer whose name starts with the given prefix. Returns how many were delayed.
+ */
+export function delayTimersByPrefix(
+  prefix: string,
+  delayMs: number,
+  gameManager: GameManager
+): number {
+  const delayed = Array.from(gameManager.getGame().scheduledTimers.values()).filter((timer) =>
+    timer.name.startsWith(prefix)
+  );
+  for (const timer of delayed) {
+    scheduleTimer(
+      timer.name,
+      Math.max(0, timer.deadline - Date.now()) + delayMs,
+      timer.handlerId,
+      gameManager,
+      timer.payload,
+      timer.isPhase
+    );
+  }
+  return delayed.length;
+}
+
 export function clearAllTimers(gameManager: GameManager) {
+  const timers = getTimers(gameManager);
   console.log(`⏰ Clearing all timers (${timers.size} active)`);
   for (const [phaseName, timer] of timers.entries()) {
     clearTimeout(timer);
     timers.delete(phaseName);
   }
+  timersByGame.delete(gameManager);
 
   // Clear deadline in game manager
   const game = gameManager.getGame();
-  if (game) {
-    game.currentPhaseDeadline = null;
-  }
+  game.scheduledTimers.clear();
+  game.currentPhaseDeadline = null;
+  gameManager.saveState();
 }
 
+/**
+ * Re-arm persisted timers after a restart.
+ * Overdue timers fire immediately, one after another in deadline order;
+ * pending timers are rescheduled for their remaining time.
+ */
+export async function rearmTimers(gameManager: GameManager) {
+  const game = gameManager.getGame();
+  const pending = Array.from(game.scheduledTimers.values()).sort(
+    (a, b) => a.deadline - b.deadline
+  );
+
+  for (const timer of pending) {
+    if (timer.deadline <= Date.now()) {
+      console.log(`⏰ Firing overdue timer: ${timer.name}`);
+      await fireTimer(gameManager, timer);
+    }
+  }
+
+  // Arm whatever is still pending (overdue handlers may have cleared or added timers)
+  const timers = getTimers(gameManager);
+  for (const timer of game.scheduledTimers.values()) {
+    if (!timers.has(timer.name)) {
+      armTimer(gameManager, timer);
+      console.log(`⏰ Re-armed timer: ${timer.name}`);
+    }
+  }
+}
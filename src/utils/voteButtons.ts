@@ -1,31 +1,34 @@
 import type { Agent } from "@xmtp/agent-sdk";
 import {
   ContentTypeActions,
+  type Action,
   type ActionsContent,
 } from "../xmtp-inline-actions/types/index.js";
 import { VOTING_PHASE_DURATION_MS } from "../config/gameConfig.js";
 import type { GameManager } from "../gameManager.js";
+import { SKIP_VOTE, Verdict, type Player } from "../types.js";
 import { getPlayerAddress } from "./playerAddress.js";
 
 /**
- * Send voting buttons for all alive players in the group
+ * Send voting buttons for the candidates (all alive players by default, the
+ * tied players in a runoff)
  */
 export async function sendVotingButtons(
   agent: Agent,
   group: any,
   gameManager: GameManager,
-  round: number
+  round: number,
+  candidates: Player[] = gameManager.getAlivePlayers(),
+  durationMs: number = VOTING_PHASE_DURATION_MS
 ): Promise<void> {
   try {
-    const alivePlayers = gameManager.getAlivePlayers();
-    
-    if (alivePlayers.length === 0) {
+    if (candidates.length === 0) {
       return;
     }
 
-    // Create buttons for each alive player
-    const voteActions = await Promise.all(
-      alivePlayers.map(async (player) => {
+    // Create buttons for each candidate
+    const voteActions: Action[] = await Promise.all(
+      candidates.map(async (player) => {
         // Try to get player address for display
         const playerAddress = await getPlayerAddress(agent, player.inboxId, group);
         const displayName = playerAddress 
@@ -40,11 +43,18 @@ export async function sendVotingButtons(
       })
     );
 
+    // Skipping is an explicit choice, so it's counted (unlike not voting)
+    voteActions.push({
+      id: `vote-${SKIP_VOTE}`,
+      label: "⏭️ Skip vote",
+      style: "secondary",
+    });
+
     const actionsContent: ActionsContent = {
       id: `voting-${round}-${Date.now()}`,
-      description: `🗳️ Vote to eliminate a player:\n\nClick a button below to vote.`,
+      description: `🗳️ Vote to eliminate a player:\n\nClick a button below to vote, or skip to eliminate no one.`,
       actions: voteActions,
-      expiresAt: new Date(Date.now() + VOTING_PHASE_DURATION_MS).toISOString(),
+      expiresAt: new Date(Date.now() + durationMs).toISOString(),
     };
 
     // Send using underlying client
@@ -62,12 +72,45 @@ export async function sendVotingButtons(
   } catch (error) {
     console.error("Error sending voting buttons:", error);
     // Fallback: send text message with instructions
-    const aliveUsernames = gameManager.getAlivePlayerUsernames();
     await group.send(
       `🗳️ Voting Phase\n\n` +
-        `Use: @mafia vote <username>\n\n` +
-        `Alive players: ${aliveUsernames.join(", ")}`
+        `Use: @mafia vote <username> (or @mafia vote skip)\n\n` +
+        `Candidates: ${candidates.map((p) => p.username).join(", ")}`
     );
   }
 }
 
+/**
+ * Send guilty/innocent buttons for the player on trial
+ */
+export async function sendVerdictButtons(
+  agent: Agent,
+  group: any,
+  defendant: Player,
+  round: number,
+  durationMs: number
+): Promise<void> {
+  try {
+    const actionsContent: ActionsContent = {
+      id: `verdict-${round}-${Date.now()}`,
+      description: `⚖️ Is ${defendant.username} guilty?\n\nClick a button below to vote.`,
+      actions: [
+        { id: `verdict-${Verdict.GUILTY}`, label: "🔨 Guilty", style: "danger" },
+        { id: `verdict-${Verdict.INNOCENT}`, label: "🕊️ Innocent", style: "secondary" },
+      ],
+      expiresAt: new Date(Date.now() + durationMs).toISOString(),
+    };
+
+    const conv = await agent.client.conversations.getConversationById(group.id);
+    if (!conv) {
+      throw new Error("Could not get conversation");
+    }
+    await conv.send(actionsContent, ContentTypeActions);
+  } catch (error) {
+    console.error("Error sending verdict buttons:", error);
+    await group.send(
+      `⚖️ Is ${defendant.username} guilty?\n\n` +
+        `Use: @mafia guilty or @mafia innocent`
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { VotingMode, VotingRule } from "../types.js";
+
+// How each voting rule is explained to players
+const VOTING_RULE_DESCRIPTIONS: Record<VotingRule, string> = {
+  [VotingRule.PLURALITY]: "Most votes is eliminated",
+  [VotingRule.MAJORITY_ALIVE]: "More than half of the alive players must agree",
+  [VotingRule.MAJORITY_CAST]: "More than half of the votes cast must agree",
+};
+
+export function getVotingRuleDescription(rule: VotingRule): string {
+  return VOTING_RULE_DESCRIPTIONS[rule];
+}
+
+export function parseVotingRule(value: string): VotingRule | undefined {
+  return (Object.values(VotingRule) as string[]).includes(value)
+    ? (value as VotingRule)
+    : undefined;
+}
+
+export function parseVotingMode(value: string): VotingMode | undefined {
+  return (Object.values(VotingMode) as string[]).includes(value)
+    ? (value as VotingMode)
+    : undefined;
+}